@@ -1,12 +1,15 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
   MapContainer, 
   TileLayer, 
   Marker, 
+  useMap,
   useMapEvents, 
   Popup, 
   GeoJSON, 
+  CircleMarker,
+  Polyline,
   LayersControl,
   ScaleControl
 } from 'react-leaflet';
@@ -14,32 +17,108 @@ import L from 'leaflet';
 import { 
   TransportMode, 
   IsochroneParams, 
-  IsochroneResult 
+  IsochroneResult,
+  SpeedProfile,
+  PolygonMethod,
+  TravelDirection,
+  RoadExtract,
+  BatchOrigin,
+  BatchStatus,
+  ExportFormat,
+  CoveragePoint,
+  PopulationLayer,
+  IsochroneStats,
+  AmenityCategory,
+  TransitFeed,
+  ObservedSpeeds,
+  ElevationModel,
+  AnalysisLayers,
+  AnalysisProvenance,
+  ProjectSession,
+  OverlayOperation,
+  FacilityPlan,
+  FacilityGapSummary,
+  ReachedNode,
+  RouteResult,
+  DrawingTool
 } from './types';
 import { 
   INDONESIA_BBOX, 
   DEFAULT_CENTER, 
   TIME_INTERVALS,
-  TRANSPORT_SPEEDS
+  BAND_COLOR_RAMP,
+  AMENITY_CATEGORIES,
+  BASEMAPS,
+  ORIGIN_SNAP_WARNING_METERS
 } from './constants';
-import { fetchRoadNetwork } from './services/overpassService';
-import { calculateDijkstra, generateHull } from './services/isochroneService';
+import { runFacilityCoverageInWorker, runIsochroneInWorker, runRouteInWorker } from './services/isochroneWorkerClient';
+import {
+  isRoadExtractFile,
+  parseRoadExtractFile,
+  isGeoJsonRoadNetwork,
+  parseGeoJsonRoads
+} from './services/osmFileParser';
+import { getDefaultProfiles } from './services/speedProfileService';
+import SpeedProfilePanel from './components/SpeedProfilePanel';
+import CachePanel from './components/CachePanel';
+import BatchPanel from './components/BatchPanel';
+import { parseOriginsFromCsv, parseOriginsFromGeoJson, runBatch } from './services/batchService';
+import { exportResult, getResultSurface } from './services/exportService';
+import {
+  computeIsochroneStats,
+  getExtractAmenities,
+  parseAmenityLayer,
+  parsePopulationLayer
+} from './services/statsService';
+import CoveragePanel from './components/CoveragePanel';
+import TransitPanel from './components/TransitPanel';
+import { parseGtfsZip } from './services/gtfsParser';
+import TrafficPanel from './components/TrafficPanel';
+import { parseObservedSpeedsCsv } from './services/trafficService';
+import ElevationPanel from './components/ElevationPanel';
+import AvoidancePanel from './components/AvoidancePanel';
+import { describeAvoidance, parseAvoidAreas } from './services/avoidanceService';
+import { parseElevationFile } from './services/elevationService';
+import { getDefaultDeparture } from './services/departureService';
+import { clipToArea, overlayResults } from './services/overlayService';
+import {
+  createDrawnResult,
+  getDrawingName,
+  getDrawnVertices,
+  updateDrawnResult,
+  Vertex
+} from './services/drawingService';
+import DrawingToolbar from './components/DrawingToolbar';
+import DrawingLayer from './components/DrawingLayer';
+import FacilityPanel from './components/FacilityPanel';
+import SurfaceLayer from './components/SurfaceLayer';
+import RoutePanel from './components/RoutePanel';
+import { analyseCoverageGaps, parseBoundary, parseSitesFile } from './services/facilityService';
+import { decodeUrlState, encodeUrlState, isProjectFile, parseProject, serializeProject } from './services/projectService';
 import { 
   Map as MapIcon, 
   Settings, 
   Download, 
   Upload, 
+  Save,
   Info, 
   Layers, 
   Navigation,
   Car,
   Bike,
   Footprints,
+  Bus,
   Clock,
   ChevronRight,
   Loader2,
   Trash2,
   FileJson,
+  Flame,
+  Route,
+  AlertTriangle,
+  Ban,
+  Crop,
+  Pencil,
   X,
   Play
 } from 'lucide-react';
@@ -54,9 +133,78 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
 });
 
+const MODE_COLORS: Record<TransportMode, string> = {
+  [TransportMode.DRIVING]: '#f43f5e',
+  [TransportMode.CYCLING]: '#f59e0b',
+  [TransportMode.WALKING]: '#10b981',
+  [TransportMode.TRANSIT]: '#0ea5e9'
+};
+
+// "15" for a single cutoff, "5/10/15" for multi-band params
+const formatMinutes = (p: IsochroneParams) => p.bands && p.bands.length > 1 ? p.bands.join('/') : `${p.minutes}`;
+const formatDirection = (p: IsochroneParams) => p.direction === TravelDirection.INBOUND ? 'to point' : 'from point';
+const formatDeparture = (p: IsochroneParams) =>
+  (p.mode === TransportMode.TRANSIT || p.mode === TransportMode.DRIVING) && p.departure ? p.departure.replace('T', ' ') : null;
+const OVERLAY_COLOR = '#a855f7';
+const GAP_ZONE_COLORS: Record<string, string> = { covered: '#10b981', uncovered: '#f43f5e', candidate: '#f59e0b' };
+
+const getResultLabel = (item: IsochroneResult): string => {
+  if (item.drawn) return item.drawn.name;
+  if (item.overlay) return `${item.overlay.operation} of ${item.overlay.inputs.length} results`;
+  if (item.gaps) return `${item.params.mode} - ${item.params.minutes}m coverage gaps`;
+  const departure = formatDeparture(item.params);
+  return `${item.params.mode} - ${formatMinutes(item.params)}m ${formatDirection(item.params)}${departure ? ` · ${departure}` : ''}`;
+};
+
+
+// Spread the band ramp over however many bands a result has
+const getBandColor = (band: number, bands: number[]) => {
+  const index = bands.indexOf(band);
+  if (index < 0 || bands.length < 2) return BAND_COLOR_RAMP[0];
+  return BAND_COLOR_RAMP[Math.round((index / (bands.length - 1)) * (BAND_COLOR_RAMP.length - 1))];
+};
+
 // AI Service Instance
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+const StatsSummary: React.FC<{ stats: IsochroneStats }> = ({ stats }) => (
+  <div className="grid grid-cols-3 gap-x-2 gap-y-1 mb-2 text-[10px] text-slate-400">
+    <span>Area <b className="text-slate-200">{stats.areaKm2.toFixed(2)} km²</b></span>
+    {stats.roadLengthKm !== undefined && <span>Roads <b className="text-slate-200">{stats.roadLengthKm.toFixed(1)} km</b></span>}
+    {stats.population !== undefined && <span>Pop. <b className="text-slate-200">{Math.round(stats.population).toLocaleString()}</b></span>}
+    {(Object.keys(AMENITY_CATEGORIES) as AmenityCategory[]).map(category => (
+      <span key={category}>
+        {AMENITY_CATEGORIES[category].label} <b className="text-slate-200">{stats.amenities[category]}</b>
+      </span>
+    ))}
+  </div>
+);
+
+const GapSummary: React.FC<{ gaps: FacilityGapSummary }> = ({ gaps }) => (
+  <div className="mb-2 text-[10px] text-slate-400 space-y-1">
+    <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+      <span>Facilities <b className="text-slate-200">{gaps.facilityCount}</b></span>
+      <span>Study area <b className="text-slate-200">{gaps.studyAreaKm2.toFixed(1)} km²</b></span>
+      <span>Unserved <b className="text-rose-400">{gaps.uncoveredKm2.toFixed(2)} km²</b></span>
+      {gaps.uncoveredPopulation !== undefined && (
+        <span>Unserved pop. <b className="text-rose-400">{Math.round(gaps.uncoveredPopulation).toLocaleString()}</b></span>
+      )}
+    </div>
+    {gaps.candidates.length > 0 && (
+      <ol className="space-y-0.5">
+        {gaps.candidates.map(c => (
+          <li key={c.id} className="flex justify-between gap-2">
+            <span className="truncate">{c.rank}. {c.id}</span>
+            <b className="text-amber-400 shrink-0">
+              +{c.gainPopulation !== undefined ? `${Math.round(c.gainPopulation).toLocaleString()} people` : `${c.gainKm2.toFixed(2)} km²`}
+            </b>
+          </li>
+        ))}
+      </ol>
+    )}
+  </div>
+);
+
 const Sidebar: React.FC<{
   params: IsochroneParams;
   setParams: React.Dispatch<React.SetStateAction<IsochroneParams>>;
@@ -65,14 +213,53 @@ const Sidebar: React.FC<{
   isPoiSelected: boolean;
   onRemoveItem: (index: number) => void;
   onClearAll: () => void;
-  onExport: (data: any, name: string) => void;
+  onExport: (item: IsochroneResult, format: ExportFormat) => void;
   onUpload: (file: File) => void;
   onStartAnalysis: () => void;
-}> = ({ params, setParams, isLoading, history, isPoiSelected, onRemoveItem, onClearAll, onExport, onUpload, onStartAnalysis }) => {
+  speedProfile: SpeedProfile;
+  onSpeedProfileChange: (profile: SpeedProfile) => void;
+  roadExtract: RoadExtract | null;
+  onClearRoadExtract: () => void;
+  batchPanel: React.ReactNode;
+  facilityPanel: React.ReactNode;
+  coveragePanel: React.ReactNode;
+  transitPanel: React.ReactNode;
+  trafficPanel: React.ReactNode;
+  elevationPanel: React.ReactNode;
+  avoidancePanel: React.ReactNode;
+  onSaveProject: () => void;
+  onOverlay: (indexes: number[], operation: OverlayOperation) => void;
+  heatmapNodes: ReachedNode[] | null;
+  onToggleHeatmap: (item: IsochroneResult) => void;
+  routeParams: IsochroneParams | null;
+  onInspectRoutes: (item: IsochroneResult) => void;
+  editingItem: IsochroneResult | null;
+  onEditDrawn: (item: IsochroneResult) => void;
+  onUseAsOrigin: (item: IsochroneResult) => void;
+  onUseAsAvoidArea: (item: IsochroneResult) => void;
+  studyArea: IsochroneResult | null;
+  onToggleStudyArea: (item: IsochroneResult) => void;
+}> = ({ params, setParams, isLoading, history, isPoiSelected, onRemoveItem, onClearAll, onExport, onUpload, onStartAnalysis, speedProfile, onSpeedProfileChange, roadExtract, onClearRoadExtract, batchPanel, facilityPanel, coveragePanel, transitPanel, trafficPanel, elevationPanel, avoidancePanel, onSaveProject, onOverlay, heatmapNodes, onToggleHeatmap, routeParams, onInspectRoutes, editingItem, onEditDrawn, onUseAsOrigin, onUseAsAvoidArea, studyArea, onToggleStudyArea }) => {
+  // History indexes picked for comparison, in the order they were picked
+  const [selected, setSelected] = useState<number[]>([]);
+  useEffect(() => setSelected([]), [history.length]);
+  const toggleSelected = (idx: number) =>
+    setSelected(prev => prev.includes(idx) ? prev.filter(i => i !== idx) : [...prev, idx]);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const setMode = (mode: TransportMode) => setParams(prev => ({ ...prev, mode }));
-  const setMinutes = (minutes: number) => setParams(prev => ({ ...prev, minutes }));
+  const isMultiBand = params.bands !== undefined;
+  const setMinutes = (minutes: number) => setParams(prev => {
+    if (!prev.bands) return { ...prev, minutes };
+    const bands = prev.bands.includes(minutes)
+      ? prev.bands.filter(b => b !== minutes)
+      : [...prev.bands, minutes].sort((a, b) => a - b);
+    return { ...prev, bands, minutes: bands.length > 0 ? Math.max(...bands) : prev.minutes };
+  });
+  const toggleMultiBand = () => setParams(prev => prev.bands
+    ? { ...prev, bands: undefined }
+    : { ...prev, bands: [prev.minutes] });
 
   return (
     <div className="w-80 h-full bg-slate-900 border-r border-slate-800 flex flex-col p-4 shadow-2xl z-20">
@@ -89,7 +276,7 @@ const Sidebar: React.FC<{
             Analysis Parameters
           </label>
           <div className="space-y-3">
-            <div className="grid grid-cols-3 gap-2">
+            <div className="grid grid-cols-4 gap-2">
               {(Object.keys(TransportMode) as Array<keyof typeof TransportMode>).map((m) => {
                 const value = TransportMode[m];
                 const isActive = params.mode === value;
@@ -97,7 +284,7 @@ const Sidebar: React.FC<{
                   <button
                     key={value}
                     onClick={() => setMode(value)}
-                    className={`flex flex-col items-center justify-center p-3 rounded-xl border transition-all ${
+                    className={`flex flex-col items-center justify-center p-2.5 rounded-xl border transition-all ${
                       isActive 
                         ? 'bg-indigo-600 border-indigo-500 text-white shadow-lg shadow-indigo-900/40' 
                         : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'
@@ -106,6 +293,7 @@ const Sidebar: React.FC<{
                     {value === TransportMode.DRIVING && <Car className="w-5 h-5 mb-1" />}
                     {value === TransportMode.CYCLING && <Bike className="w-5 h-5 mb-1" />}
                     {value === TransportMode.WALKING && <Footprints className="w-5 h-5 mb-1" />}
+                    {value === TransportMode.TRANSIT && <Bus className="w-5 h-5 mb-1" />}
                     <span className="text-[10px] font-medium capitalize">{value}</span>
                   </button>
                 );
@@ -115,7 +303,7 @@ const Sidebar: React.FC<{
             <div className="bg-slate-800 border border-slate-700 rounded-xl p-3">
               <div className="flex justify-between items-center mb-2">
                 <span className="text-xs text-slate-300">Time Limit</span>
-                <span className="text-sm font-bold text-indigo-400">{params.minutes} min</span>
+                <span className="text-sm font-bold text-indigo-400">{formatMinutes(params)} min</span>
               </div>
               <div className="grid grid-cols-3 gap-2">
                 {TIME_INTERVALS.map((t) => (
@@ -123,7 +311,7 @@ const Sidebar: React.FC<{
                     key={t}
                     onClick={() => setMinutes(t)}
                     className={`text-xs py-1.5 rounded-md transition-all ${
-                      params.minutes === t 
+                      (isMultiBand ? params.bands!.includes(t) : params.minutes === t) 
                         ? 'bg-indigo-50 text-indigo-600 font-bold' 
                         : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
                     }`}
@@ -132,8 +320,57 @@ const Sidebar: React.FC<{
                   </button>
                 ))}
               </div>
+              <label className="flex items-center gap-2 mt-3 text-[11px] text-slate-400 cursor-pointer">
+                <input type="checkbox" checked={isMultiBand} onChange={toggleMultiBand} className="accent-indigo-500" />
+                Multi-band (select several cutoffs)
+              </label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              {[
+                { value: PolygonMethod.NETWORK_BUFFER, label: 'Network Buffer' },
+                { value: PolygonMethod.CONCAVE_HULL, label: 'Concave Hull' }
+              ].map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setParams(prev => ({ ...prev, polygonMethod: value }))}
+                  className={`text-[11px] py-2 rounded-lg border transition-all ${
+                    params.polygonMethod === value
+                      ? 'bg-indigo-600/20 border-indigo-500 text-indigo-300 font-bold'
+                      : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
 
+            <div className="grid grid-cols-2 gap-2">
+              {[
+                { value: TravelDirection.OUTBOUND, label: 'From Point' },
+                { value: TravelDirection.INBOUND, label: 'To Point' }
+              ].map(({ value, label }) => (
+                <button
+                  key={value}
+                  onClick={() => setParams(prev => ({ ...prev, direction: value }))}
+                  className={`text-[11px] py-2 rounded-lg border transition-all ${
+                    params.direction === value
+                      ? 'bg-indigo-600/20 border-indigo-500 text-indigo-300 font-bold'
+                      : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {params.mode === TransportMode.TRANSIT && transitPanel}
+            {params.mode === TransportMode.DRIVING && trafficPanel}
+            {params.mode !== TransportMode.DRIVING && elevationPanel}
+            {avoidancePanel}
+
+            <SpeedProfilePanel profile={speedProfile} onChange={onSpeedProfileChange} />
+
             <button 
               disabled={!isPoiSelected || isLoading}
               onClick={onStartAnalysis}
@@ -151,6 +388,9 @@ const Sidebar: React.FC<{
               {isPoiSelected ? 'Start Analysis' : 'Click Map to Select POI'}
             </button>
 
+            {batchPanel}
+            {facilityPanel}
+
             {!isPoiSelected && (
               <p className="text-[11px] text-amber-500/80 italic flex items-center gap-1.5 px-1">
                 <Info className="w-3 h-3" />
@@ -166,15 +406,47 @@ const Sidebar: React.FC<{
               Layers & History
             </label>
             {history.length > 0 && (
-              <button 
-                onClick={onClearAll}
-                className="text-xs text-rose-400 hover:text-rose-300 flex items-center gap-1"
-              >
-                <Trash2 className="w-3 h-3" /> Clear
-              </button>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={onSaveProject}
+                  title="Save the session as a project file; open it again via Upload"
+                  className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1"
+                >
+                  <Save className="w-3 h-3" /> Save
+                </button>
+                <button 
+                  onClick={onClearAll}
+                  className="text-xs text-rose-400 hover:text-rose-300 flex items-center gap-1"
+                >
+                  <Trash2 className="w-3 h-3" /> Clear
+                </button>
+              </div>
             )}
           </div>
           
+          {selected.length >= 2 && (
+            <div className="mb-2 p-2 bg-purple-500/10 border border-purple-500/30 rounded-lg">
+              <p className="text-[10px] text-purple-300 mb-1.5">
+                Compare {selected.length} results (first picked is the base)
+              </p>
+              <div className="grid grid-cols-3 gap-1.5">
+                {[
+                  { value: OverlayOperation.INTERSECTION, label: 'Intersect' },
+                  { value: OverlayOperation.DIFFERENCE, label: 'Difference' },
+                  { value: OverlayOperation.UNION, label: 'Union' }
+                ].map(({ value, label }) => (
+                  <button
+                    key={value}
+                    onClick={() => onOverlay(selected, value)}
+                    className="py-1 bg-purple-600 hover:bg-purple-500 rounded text-[10px] font-bold text-white"
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="space-y-2">
             {history.length === 0 ? (
               <div className="border-2 border-dashed border-slate-800 rounded-xl p-6 text-center">
@@ -188,12 +460,30 @@ const Sidebar: React.FC<{
                 <div key={idx} className="bg-slate-800 rounded-lg p-3 border border-slate-700 group animate-in slide-in-from-right-2 duration-300">
                   <div className="flex justify-between items-start mb-2">
                     <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(idx)}
+                        onChange={() => toggleSelected(idx)}
+                        title="Select for comparison"
+                        className="accent-purple-500"
+                      />
                       <div className={`w-2 h-2 rounded-full ${
+                        item.drawn ? 'bg-sky-400' :
+                        item.overlay ? 'bg-purple-500' :
+                        item.gaps ? 'bg-amber-500' :
                         item.params.mode === TransportMode.DRIVING ? 'bg-rose-500' : 
-                        item.params.mode === TransportMode.CYCLING ? 'bg-amber-500' : 'bg-emerald-500'
+                        item.params.mode === TransportMode.CYCLING ? 'bg-amber-500' :
+                        item.params.mode === TransportMode.TRANSIT ? 'bg-sky-500' : 'bg-emerald-500'
                       }`} />
                       <span className="text-xs font-bold text-slate-200 capitalize">
-                        {item.params.mode} - {item.params.minutes}m
+                        {item.overlay || item.gaps || item.drawn ? getResultLabel(item) : (
+                          <>
+                            {item.params.mode} - {formatMinutes(item.params)}m {formatDirection(item.params)}
+                            {formatDeparture(item.params) && <span className="font-normal text-slate-400 normal-case"> · {formatDeparture(item.params)}</span>}
+                          </>
+                        )}
+                        {item.batch && <span className="font-normal text-slate-400 normal-case"> · {item.batch.originCount} origins</span>}
+                        {studyArea === item && <span className="font-normal text-slate-400 normal-case"> · study area</span>}
                       </span>
                     </div>
                     <button 
@@ -203,32 +493,198 @@ const Sidebar: React.FC<{
                       <X className="w-3 h-3" />
                     </button>
                   </div>
-                  <div className="flex gap-2">
+                  {item.overlay && (
+                    <div className="mb-2 text-[10px] text-slate-400 space-y-0.5">
+                      {item.overlay.inputs.map((input, i) => (
+                        <p key={i} className="truncate capitalize">{i === 0 ? 'Base' : 'With'}: {input.label}</p>
+                      ))}
+                      <p>
+                        Δ area vs base{' '}
+                        <b className={item.overlay.areaDeltaKm2 >= 0 ? 'text-emerald-400' : 'text-rose-400'}>
+                          {item.overlay.areaDeltaKm2 >= 0 ? '+' : ''}{item.overlay.areaDeltaKm2.toFixed(2)} km²
+                        </b>
+                      </p>
+                    </div>
+                  )}
+                  {describeAvoidance(item.params.avoid).length > 0 && (
+                    <p className="mb-2 text-[10px] text-slate-400 flex items-center gap-1.5">
+                      <Ban className="w-3 h-3 shrink-0" />
+                      Avoiding {describeAvoidance(item.params.avoid).join(', ')}
+                    </p>
+                  )}
+                  {item.clippedTo && (
+                    <p className="mb-2 text-[10px] text-slate-400 flex items-center gap-1.5">
+                      <Crop className="w-3 h-3 shrink-0" />
+                      Clipped to {item.clippedTo}
+                    </p>
+                  )}
+                  {item.originSnapMeters !== undefined && item.originSnapMeters > ORIGIN_SNAP_WARNING_METERS && (
+                    <p className="mb-2 text-[10px] text-amber-400 flex items-center gap-1.5">
+                      <AlertTriangle className="w-3 h-3 shrink-0" />
+                      Origin is {Math.round(item.originSnapMeters)} m from the nearest road; the walk there uses part of the time budget.
+                    </p>
+                  )}
+                  {item.gaps && <GapSummary gaps={item.gaps} />}
+                  {item.stats && <StatsSummary stats={item.stats} />}
+                  <div className="grid grid-cols-2 gap-2">
                     <button 
-                      onClick={() => onExport(item.polygon, `isochrone_${item.params.mode}_${item.params.minutes}m.geojson`)}
-                      className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 font-medium transition-colors"
+                      onClick={() => onExport(item, ExportFormat.GEOJSON)}
+                      className="flex items-center justify-center gap-1.5 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 font-medium transition-colors"
                     >
                       <FileJson className="w-3 h-3" /> GeoJSON
                     </button>
                     <button 
-                      disabled
-                      title="Shapefile export requires backend processing"
-                      className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-slate-700/50 cursor-not-allowed rounded text-[10px] text-slate-500 font-medium"
+                      onClick={() => onExport(item, ExportFormat.SHAPEFILE)}
+                      className="flex items-center justify-center gap-1.5 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 font-medium transition-colors"
                     >
                       <Download className="w-3 h-3" /> .SHP
                     </button>
                   </div>
+                  <div className="grid grid-cols-3 gap-2 mt-2">
+                    <button 
+                      onClick={() => onExport(item, ExportFormat.KML)}
+                      className="flex items-center justify-center gap-1.5 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 font-medium transition-colors"
+                    >
+                      KML
+                    </button>
+                    <button 
+                      onClick={() => onExport(item, ExportFormat.GEOPACKAGE)}
+                      className="flex items-center justify-center gap-1.5 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 font-medium transition-colors"
+                    >
+                      GPKG
+                    </button>
+                    <button 
+                      disabled={!item.reachedNodes?.length}
+                      title="Reached nodes with travel times"
+                      onClick={() => onExport(item, ExportFormat.NODES_CSV)}
+                      className="flex items-center justify-center gap-1.5 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-700/50 disabled:text-slate-500 disabled:cursor-not-allowed rounded text-[10px] text-slate-300 font-medium transition-colors"
+                    >
+                      Nodes CSV
+                    </button>
+                  </div>
+                  {item.drawn && (
+                    <div className="grid grid-cols-3 gap-2 mt-2">
+                      <button
+                        onClick={() => onEditDrawn(item)}
+                        title="Drag vertices to move them; right-click a vertex to delete it"
+                        className={`flex items-center justify-center gap-1.5 py-1.5 rounded text-[10px] font-medium transition-colors ${
+                          editingItem === item
+                            ? 'bg-indigo-600 text-white hover:bg-indigo-500'
+                            : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                        }`}
+                      >
+                        <Pencil className="w-3 h-3" /> Edit
+                      </button>
+                      {item.drawn.tool === DrawingTool.POLYGON ? (
+                        <>
+                          <button
+                            onClick={() => onUseAsAvoidArea(item)}
+                            title="Add to the avoided areas"
+                            className="flex items-center justify-center gap-1.5 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 font-medium transition-colors"
+                          >
+                            <Ban className="w-3 h-3" /> Avoid
+                          </button>
+                          <button
+                            onClick={() => onToggleStudyArea(item)}
+                            title="Clip new isochrones to this polygon"
+                            className={`flex items-center justify-center gap-1.5 py-1.5 rounded text-[10px] font-medium transition-colors ${
+                              studyArea === item
+                                ? 'bg-indigo-600 text-white hover:bg-indigo-500'
+                                : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                            }`}
+                          >
+                            <Crop className="w-3 h-3" /> Clip
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => onUseAsOrigin(item)}
+                          title={item.drawn.tool === DrawingTool.LINE ? 'Use the vertices as batch origins' : 'Use as the analysis origin'}
+                          className="flex items-center justify-center gap-1.5 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 font-medium transition-colors"
+                        >
+                          <Navigation className="w-3 h-3" /> {item.drawn.tool === DrawingTool.LINE ? 'Origins' : 'Origin'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {!!item.reachedNodes?.length && (
+                    <div className="grid grid-cols-4 gap-2 mt-2">
+                      <button
+                        onClick={() => onToggleHeatmap(item)}
+                        title="Travel-time heatmap; hover the map for minutes"
+                        className={`flex items-center justify-center gap-1.5 py-1.5 rounded text-[10px] font-medium transition-colors ${
+                          heatmapNodes === item.reachedNodes
+                            ? 'bg-indigo-600 text-white hover:bg-indigo-500'
+                            : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                        }`}
+                      >
+                        <Flame className="w-3 h-3" /> Heatmap
+                      </button>
+                      <button
+                        onClick={() => onInspectRoutes(item)}
+                        disabled={item.params.mode === TransportMode.TRANSIT}
+                        title="Click destinations on the map to see the route"
+                        className={`flex items-center justify-center gap-1.5 py-1.5 rounded text-[10px] font-medium transition-colors disabled:bg-slate-700/50 disabled:text-slate-500 disabled:cursor-not-allowed ${
+                          routeParams === item.params
+                            ? 'bg-indigo-600 text-white hover:bg-indigo-500'
+                            : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+                        }`}
+                      >
+                        <Route className="w-3 h-3" /> Route
+                      </button>
+                      <button
+                        onClick={() => onExport(item, ExportFormat.GEOTIFF)}
+                        title="Travel-time raster in minutes"
+                        className="flex items-center justify-center gap-1.5 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 font-medium transition-colors"
+                      >
+                        GeoTIFF
+                      </button>
+                      <button
+                        onClick={() => onExport(item, ExportFormat.ASCII_GRID)}
+                        title="Travel-time raster in minutes (Esri ASCII grid)"
+                        className="flex items-center justify-center gap-1.5 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 font-medium transition-colors"
+                      >
+                        ASCII
+                      </button>
+                    </div>
+                  )}
                 </div>
               ))
             )}
           </div>
         </section>
 
-        <section className="pt-4 border-t border-slate-800">
+        <section className="pt-4 border-t border-slate-800 space-y-3">
+          <div className="flex items-center justify-between gap-2 bg-slate-800 border border-slate-700 rounded-xl px-3 py-2">
+            <div className="flex items-center gap-2 min-w-0">
+              <Layers className="w-3.5 h-3.5 text-indigo-400 shrink-0" />
+              <div className="flex flex-col min-w-0">
+                <span className="text-[10px] text-slate-500 uppercase tracking-wider">Road Network</span>
+                <span className="text-[11px] text-slate-300 truncate">
+                  {roadExtract ? `${roadExtract.name} (offline)` : 'Overpass API (online)'}
+                </span>
+              </div>
+            </div>
+            {roadExtract && (
+              <button
+                title="Switch back to Overpass API"
+                onClick={onClearRoadExtract}
+                className="p-1 text-slate-500 hover:text-rose-400"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+          {coveragePanel}
+          {!roadExtract && <CachePanel refreshKey={history.length} />}
           <input 
             type="file" 
             ref={fileInputRef} 
-            onChange={(e) => e.target.files?.[0] && onUpload(e.target.files[0])} 
+            accept=".geojson,.json,.csv,.osm,.xml,.pbf"
+            onChange={(e) => {
+              if (e.target.files?.[0]) onUpload(e.target.files[0]);
+              e.target.value = '';
+            }} 
             className="hidden" 
           />
           <button 
@@ -248,7 +704,7 @@ const Sidebar: React.FC<{
             <span className="text-[10px] font-bold uppercase tracking-widest">Analyst Info</span>
           </div>
           <p className="text-[11px] text-slate-400 leading-relaxed">
-            NusaIsochrone utilizes Dijkstra's shortest-path algorithm over OSM network graph. Indonesia specific average speeds are calibrated for urban morphology.
+            NusaIsochrone utilizes Dijkstra's shortest-path algorithm over OSM network graph. Edge speeds follow editable per-road-class profiles calibrated for Indonesian urban morphology.
           </p>
         </div>
       </div>
@@ -256,25 +712,78 @@ const Sidebar: React.FC<{
   );
 };
 
-const MapEvents: React.FC<{ onClick: (lat: number, lng: number) => void }> = ({ onClick }) => {
+const MapEvents: React.FC<{
+  onClick: (lat: number, lng: number) => void;
+  onBaseLayerChange: (name: string) => void;
+}> = ({ onClick, onBaseLayerChange }) => {
   useMapEvents({
     click(e) {
       onClick(e.latlng.lat, e.latlng.lng);
     },
+    baselayerchange(e) {
+      onBaseLayerChange(e.name);
+    }
   });
   return null;
 };
 
+// Pan the map when a restored session moves the POI
+const MapFocus: React.FC<{ target: [number, number] | null }> = ({ target }) => {
+  const map = useMap();
+  useEffect(() => {
+    if (target) map.setView(target, map.getZoom());
+  }, [map, target]);
+  return null;
+};
+
+// View state shared through the URL, read once on startup
+const initialUrlState = decodeUrlState(window.location.search);
+
 const App: React.FC = () => {
   const [params, setParams] = useState<IsochroneParams>({
-    lat: DEFAULT_CENTER[0],
-    lng: DEFAULT_CENTER[1],
-    mode: TransportMode.WALKING,
-    minutes: 15
+    lat: initialUrlState.poi?.[0] ?? DEFAULT_CENTER[0],
+    lng: initialUrlState.poi?.[1] ?? DEFAULT_CENTER[1],
+    mode: initialUrlState.mode ?? TransportMode.WALKING,
+    minutes: initialUrlState.minutes ?? 15,
+    bands: initialUrlState.bands,
+    polygonMethod: PolygonMethod.NETWORK_BUFFER,
+    direction: TravelDirection.OUTBOUND,
+    departure: getDefaultDeparture()
   });
-  const [activePoi, setActivePoi] = useState<[number, number] | null>(null);
+  const [activePoi, setActivePoi] = useState<[number, number] | null>(initialUrlState.poi ?? null);
+  const [basemap, setBasemap] = useState(initialUrlState.basemap ?? BASEMAPS[0].name);
+  const [mapFocus, setMapFocus] = useState<[number, number] | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [history, setHistory] = useState<IsochroneResult[]>([]);
+  const [speedProfiles, setSpeedProfiles] = useState<Record<TransportMode, SpeedProfile>>(getDefaultProfiles);
+  const [progress, setProgress] = useState<{ stage: string; fraction: number }>({ stage: '', fraction: 0 });
+  const abortRef = useRef<AbortController | null>(null);
+  const [roadExtract, setRoadExtract] = useState<RoadExtract | null>(null);
+  const [batchOrigins, setBatchOrigins] = useState<BatchOrigin[]>([]);
+  const [batchStatuses, setBatchStatuses] = useState<Record<string, BatchStatus>>({});
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [facilityPlan, setFacilityPlan] = useState<FacilityPlan>({ facilities: [], candidates: [], boundary: null });
+  const [boundaryName, setBoundaryName] = useState<string | null>(null);
+  const [isGapRunning, setIsGapRunning] = useState(false);
+  // The heatmap follows a result's node times, which survive the result being updated with stats
+  const [heatmapNodes, setHeatmapNodes] = useState<ReachedNode[] | null>(null);
+  // While a result is being inspected, map clicks trace routes instead of moving the POI
+  const [routeItem, setRouteItem] = useState<IsochroneResult | null>(null);
+  const [route, setRoute] = useState<RouteResult | null>(null);
+  const [isRouting, setIsRouting] = useState(false);
+  // While drawing, map clicks add vertices to the sketch instead of moving the POI
+  const [drawing, setDrawing] = useState<{ tool: DrawingTool; vertices: Vertex[] } | null>(null);
+  const [editingItem, setEditingItem] = useState<IsochroneResult | null>(null);
+  // Drawn polygon that new isochrones are clipped to
+  const [studyArea, setStudyArea] = useState<IsochroneResult | null>(null);
+  const [populationLayer, setPopulationLayer] = useState<PopulationLayer | null>(null);
+  const [amenityLayer, setAmenityLayer] = useState<{ name: string; points: CoveragePoint[] } | null>(null);
+  const [transitFeed, setTransitFeed] = useState<TransitFeed | null>(null);
+  const [isLoadingFeed, setIsLoadingFeed] = useState(false);
+  const [observedSpeeds, setObservedSpeeds] = useState<ObservedSpeeds | null>(null);
+  const [elevation, setElevation] = useState<ElevationModel | null>(null);
+  const [isLoadingElevation, setIsLoadingElevation] = useState(false);
+  const layers: AnalysisLayers = { transit: transitFeed, observedSpeeds, elevation };
   const [showAiAnalysis, setShowAiAnalysis] = useState(false);
   const [aiAnalysisContent, setAiAnalysisContent] = useState("");
 
@@ -283,49 +792,192 @@ const App: React.FC = () => {
     setParams(prev => ({ ...prev, lat, lng }));
   }, []);
 
+  // Keep the shareable part of the session in the address bar
+  useEffect(() => {
+    window.history.replaceState(null, '', encodeUrlState(params, activePoi, basemap));
+  }, [params.mode, params.minutes, params.bands, activePoi, basemap]);
+
+  const getProvenance = (profile: SpeedProfile, networkFetchedAt?: number): AnalysisProvenance => ({
+    computedAt: new Date().toISOString(),
+    networkSource: roadExtract ? roadExtract.name : 'Overpass API',
+    networkFetchedAt: networkFetchedAt !== undefined ? new Date(networkFetchedAt).toISOString() : undefined,
+    profile,
+    transitFeed: transitFeed?.name,
+    observedSpeeds: observedSpeeds?.name,
+    elevation: elevation?.name
+  });
+
+  // Coverage statistics arrive after the result is shown; amenities come from the uploaded
+  // layer, else from the local extract, else from Overpass
+  const attachStats = async (result: IsochroneResult, roadLengthKm?: number) => {
+    try {
+      const stats = await computeIsochroneStats(result, {
+        roadLengthKm,
+        amenities: amenityLayer?.points ?? (roadExtract ? getExtractAmenities(roadExtract.elements) : undefined),
+        population: populationLayer
+      });
+      if (stats) setHistory(prev => prev.map(h => h === result ? { ...h, stats } : h));
+    } catch (e) {
+      console.error('Coverage statistics failed', e);
+    }
+  };
+
   const calculateIsochrone = useCallback(async (customParams?: IsochroneParams) => {
     const activeParams = customParams || params;
     if (!activeParams.lat || !activeParams.lng) return;
+    if (activeParams.mode === TransportMode.TRANSIT && !transitFeed) {
+      alert("Load a GTFS feed (.zip) for transit analysis first.");
+      return;
+    }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsLoading(true);
     try {
-      // 1. Fetch data from Overpass
-      const speedMS = (TRANSPORT_SPEEDS[activeParams.mode] * 1000) / 3600;
-      const radius = speedMS * (activeParams.minutes * 60) * 1.5; // Padding factor
-      
-      const graph = await fetchRoadNetwork(activeParams.lat, activeParams.lng, radius, activeParams.mode);
+      // Fetch -> Dijkstra -> hull runs off the main thread
+      const { polygon: hull, reachedNodes, roadLengthKm, networkFetchedAt, originSnapMeters } = await runIsochroneInWorker(
+        activeParams,
+        speedProfiles[activeParams.mode],
+        roadExtract ? { type: 'local', extract: roadExtract } : { type: 'overpass' },
+        layers,
+        (stage, fraction) => setProgress({ stage, fraction }),
+        controller.signal
+      );
       
-      // 2. Run Dijkstra
-      const nodes = calculateDijkstra(graph, activeParams.lat, activeParams.lng, activeParams.minutes * 60);
-      
-      // 3. Generate Hull
-      const hull = generateHull(nodes, activeParams.minutes * 60);
-      
-      if (hull) {
+      // The network's road length no longer matches a polygon clipped to the study area
+      const polygon = hull && studyArea ? clipToArea(hull, studyArea.polygon) : hull;
+      if (polygon) {
         const result: IsochroneResult = {
-          polygon: hull,
-          params: { ...activeParams }
+          polygon,
+          params: { ...activeParams },
+          reachedNodes,
+          originSnapMeters,
+          clippedTo: studyArea?.drawn?.name,
+          provenance: getProvenance(speedProfiles[activeParams.mode], networkFetchedAt)
         };
         setHistory(prev => [result, ...prev]);
+        attachStats(result, studyArea ? undefined : roadLengthKm);
         
         // AI Planning Context
-        generateAiPlanningContext(activeParams, hull);
+        generateAiPlanningContext(activeParams, polygon);
+      } else if (hull) {
+        alert(`The isochrone does not overlap the study area ${studyArea?.drawn?.name}.`);
       } else {
         alert("Could not generate isochrone for this area. It might be sparse in OSM data.");
       }
     } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
       console.error(error);
       alert("Failed to calculate isochrone. Check network connectivity.");
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
+      setProgress({ stage: '', fraction: 0 });
+    }
+  }, [params, speedProfiles, roadExtract, populationLayer, amenityLayer, transitFeed, observedSpeeds, elevation, studyArea]);
+
+  const runBatchAnalysis = async () => {
+    if (batchOrigins.length === 0) return;
+    if (params.mode === TransportMode.TRANSIT && !transitFeed) {
+      alert("Load a GTFS feed (.zip) for transit analysis first.");
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsBatchRunning(true);
+    setBatchStatuses({});
+    let doneCount = 0;
+    let failedCount = 0;
+    try {
+      const collection = await runBatch(
+        batchOrigins,
+        params,
+        speedProfiles[params.mode],
+        roadExtract ? { type: 'local', extract: roadExtract } : { type: 'overpass' },
+        layers,
+        (originId, status) => {
+          if (status.state === 'done') doneCount++;
+          if (status.state === 'failed') failedCount++;
+          setBatchStatuses(prev => ({ ...prev, [originId]: status }));
+        },
+        controller.signal
+      );
+      // A cancelled batch is incomplete, so it stays out of history; the list keeps each origin's status
+      if (controller.signal.aborted) return;
+
+      const polygon = studyArea && collection.features.length > 0 ? clipToArea(collection, studyArea.polygon) : collection;
+      if (polygon && polygon.features.length > 0) {
+        const result: IsochroneResult = {
+          polygon,
+          params: { ...params },
+          batch: { originCount: doneCount, failedCount },
+          clippedTo: studyArea?.drawn?.name,
+          provenance: getProvenance(speedProfiles[params.mode])
+        };
+        setHistory(prev => [result, ...prev]);
+        attachStats(result);
+      } else if (!polygon) {
+        alert(`None of the isochrones overlap the study area ${studyArea?.drawn?.name}.`);
+      } else {
+        alert("No isochrones could be generated for the uploaded origins.");
+      }
+    } finally {
+      abortRef.current = null;
+      setIsBatchRunning(false);
     }
-  }, [params]);
+  };
+
+  const runGapAnalysis = async () => {
+    if (facilityPlan.facilities.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsGapRunning(true);
+    try {
+      const gapParams = { ...params, bands: undefined };
+      const output = await runFacilityCoverageInWorker(
+        facilityPlan,
+        gapParams,
+        speedProfiles[params.mode],
+        roadExtract ? { type: 'local', extract: roadExtract } : { type: 'overpass' },
+        layers,
+        (stage, fraction) => setProgress({ stage, fraction }),
+        controller.signal
+      );
+      setProgress({ stage: 'Ranking candidate sites', fraction: 1 });
+      const { polygon, summary } = analyseCoverageGaps(facilityPlan, output, populationLayer);
+      setHistory(prev => [{
+        polygon,
+        params: gapParams,
+        gaps: summary,
+        provenance: getProvenance(speedProfiles[params.mode], output.networkFetchedAt)
+      }, ...prev]);
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error(error);
+      alert(error instanceof Error ? error.message : "Gap analysis failed.");
+    } finally {
+      abortRef.current = null;
+      setIsGapRunning(false);
+      setProgress({ stage: '', fraction: 0 });
+    }
+  };
+
+  const loadSites = async (file: File, key: 'facilities' | 'candidates') => {
+    try {
+      const sites = parseSitesFile(file.name, await file.text());
+      setFacilityPlan(prev => ({ ...prev, [key]: sites }));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Could not read site locations.");
+    }
+  };
 
   const generateAiPlanningContext = async (p: IsochroneParams, geojson: any) => {
     try {
       const response = await ai.models.generateContent({
         model: 'gemini-3-flash-preview',
-        contents: `As an Urban Planning Assistant, explain the significance of a ${p.minutes}-minute ${p.mode} isochrone at latitude ${p.lat}, longitude ${p.lng} in the Indonesian context. Mention the "15-minute city" concept if applicable. Keep it concise (3 sentences).`,
+        contents: `As an Urban Planning Assistant, explain the significance of a ${p.minutes}-minute ${p.mode} isochrone (travel ${formatDirection(p)}) at latitude ${p.lat}, longitude ${p.lng} in the Indonesian context. Mention the "15-minute city" concept if applicable. Keep it concise (3 sentences).`,
       });
       setAiAnalysisContent(response.text || "");
       setShowAiAnalysis(true);
@@ -334,8 +986,19 @@ const App: React.FC = () => {
     }
   };
 
-  const handleExport = (data: any, filename: string) => {
-    const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+  const handleExport = async (item: IsochroneResult, format: ExportFormat) => {
+    let file;
+    try {
+      file = await exportResult(item, format);
+    } catch (err) {
+      console.error(err);
+      alert("Export failed.");
+      return;
+    }
+    downloadBlob(file.blob, file.filename);
+  };
+
+  const downloadBlob = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -344,13 +1007,222 @@ const App: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
+  const heatmapItem = heatmapNodes ? history.find(h => h.reachedNodes === heatmapNodes) : undefined;
+  const surface = useMemo(() => {
+    if (!heatmapItem) return null;
+    try {
+      return getResultSurface(heatmapItem);
+    } catch (e) {
+      console.error('Travel-time surface failed', e);
+      return null;
+    }
+  }, [heatmapItem?.reachedNodes, heatmapItem?.params]);
+
+  const handleToggleHeatmap = (item: IsochroneResult) => {
+    setHeatmapNodes(prev => (prev === item.reachedNodes ? null : item.reachedNodes ?? null));
+  };
+
+  const closeRoutes = () => {
+    if (isRouting) abortRef.current?.abort();
+    setRouteItem(null);
+    setRoute(null);
+  };
+
+  const handleInspectRoutes = (item: IsochroneResult) => {
+    if (routeItem?.params === item.params) {
+      closeRoutes();
+      return;
+    }
+    if (isRouting) abortRef.current?.abort();
+    setRoute(null);
+    setRouteItem(item);
+  };
+
+  // Stop inspecting once the result leaves the history
+  useEffect(() => {
+    if (routeItem && !history.some(h => h.params === routeItem.params)) closeRoutes();
+  }, [history]);
+
+  const traceRoute = async (lat: number, lng: number) => {
+    if (!routeItem || isLoading || isBatchRunning || isGapRunning) return;
+    if (isRouting) abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRouting(true);
+    try {
+      setRoute(await runRouteInWorker(
+        routeItem.params,
+        routeItem.provenance?.profile ?? speedProfiles[routeItem.params.mode],
+        { lat, lng },
+        roadExtract ? { type: 'local', extract: roadExtract } : { type: 'overpass' },
+        layers,
+        (stage, fraction) => setProgress({ stage, fraction }),
+        controller.signal
+      ));
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      alert(error instanceof Error ? error.message : "Could not trace the route.");
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsRouting(false);
+        setProgress({ stage: '', fraction: 0 });
+      }
+    }
+  };
+
+  const startDrawing = (tool: DrawingTool) => {
+    if (routeItem) closeRoutes();
+    setEditingItem(null);
+    setDrawing({ tool, vertices: [] });
+  };
+
+  const finishDrawing = (sketch = drawing) => {
+    if (!sketch) return;
+    const result = createDrawnResult(sketch.tool, sketch.vertices, getDrawingName(sketch.tool, history));
+    if (result) setHistory(prev => [result, ...prev]);
+    setDrawing(null);
+  };
+
+  const addDrawingVertex = (lat: number, lng: number) => {
+    if (!drawing) return;
+    const sketch = { ...drawing, vertices: [...drawing.vertices, [lat, lng] as Vertex] };
+    if (sketch.tool === DrawingTool.POINT) finishDrawing(sketch);
+    else setDrawing(sketch);
+  };
+
+  // Edits replace the history item, so the states holding it follow along
+  const updateDrawn = (item: IsochroneResult, vertices: Vertex[]) => {
+    const updated = updateDrawnResult(item, vertices);
+    setHistory(prev => prev.map(h => h === item ? updated : h));
+    setEditingItem(prev => prev === item ? updated : prev);
+    setStudyArea(prev => prev === item ? updated : prev);
+  };
+
+  useEffect(() => {
+    if (editingItem && !history.includes(editingItem)) setEditingItem(null);
+    if (studyArea && !history.includes(studyArea)) setStudyArea(null);
+  }, [history]);
+
+  // A drawn point becomes the POI; the vertices of a drawn line become batch origins
+  const applyDrawnOrigin = (item: IsochroneResult) => {
+    const vertices = getDrawnVertices(item);
+    if (item.drawn?.tool === DrawingTool.POINT) {
+      handleMapClick(vertices[0][0], vertices[0][1]);
+      setMapFocus(vertices[0]);
+      return;
+    }
+    loadOrigins(vertices.map(([lat, lng], i) => ({ id: `${item.drawn!.name} #${i + 1}`, lat, lng, properties: {} })));
+  };
+
+  // Replaces an earlier copy of the same drawing, so an edited polygon can be avoided again
+  const avoidDrawnArea = (item: IsochroneResult) => {
+    const name = item.drawn!.name;
+    setParams(prev => {
+      const features = (prev.avoid?.areas?.features ?? []).filter((f: any) => f.properties?.name !== name);
+      const names = (prev.avoid?.areasName ?? '').split(', ').filter(n => n && n !== name);
+      return {
+        ...prev,
+        avoid: {
+          ...prev.avoid,
+          areas: { type: 'FeatureCollection', features: [...features, { type: 'Feature', geometry: item.polygon.geometry, properties: { name } }] },
+          areasName: [...names, name].join(', ')
+        }
+      };
+    });
+  };
+
+  const handleOverlay = (indexes: number[], operation: OverlayOperation) => {
+    try {
+      const result = overlayResults(indexes.map(i => history[i]), operation, getResultLabel);
+      if (!result) {
+        alert(`The ${operation} of the selected results is empty.`);
+        return;
+      }
+      setHistory(prev => [result, ...prev]);
+      attachStats(result);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Comparison failed.");
+    }
+  };
+
+  const handleSaveProject = () => {
+    const session: ProjectSession = { params, activePoi, basemap, speedProfiles, history };
+    downloadBlob(new Blob([serializeProject(session)], { type: 'application/json' }), 'nusa-isochrone-project.json');
+  };
+
+  const restoreProject = (session: ProjectSession) => {
+    setParams(session.params);
+    setActivePoi(session.activePoi);
+    setBasemap(session.basemap);
+    setSpeedProfiles(session.speedProfiles);
+    setHistory(session.history);
+    setMapFocus(session.activePoi);
+  };
+
+  const loadOrigins = (origins: BatchOrigin[]) => {
+    if (origins.length === 0) {
+      alert("No valid origin points found in the file.");
+    } else if (origins.length === 1) {
+      handleMapClick(origins[0].lat, origins[0].lng);
+    } else {
+      setBatchOrigins(origins);
+      setBatchStatuses({});
+    }
+  };
+
   const handleUpload = async (file: File) => {
+    // OSM XML / PBF extracts replace Overpass as the road network source
+    if (isRoadExtractFile(file.name)) {
+      try {
+        setRoadExtract(await parseRoadExtractFile(file));
+      } catch (err) {
+        console.error(err);
+        alert(`Could not read road extract: ${err instanceof Error ? err.message : err}`);
+      }
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = async (e) => {
+      const text = e.target?.result as string;
+
+      // CSV files hold lat/lng origins for a batch run
+      if (/\.csv$/i.test(file.name)) {
+        try {
+          loadOrigins(parseOriginsFromCsv(text));
+        } catch (err) {
+          alert(err instanceof Error ? err.message : "Could not read origins from CSV.");
+        }
+        return;
+      }
+
       try {
-        const text = e.target?.result as string;
         const geojson = JSON.parse(text);
+
+        // A saved project replaces the whole session
+        if (isProjectFile(geojson)) {
+          try {
+            restoreProject(parseProject(geojson));
+          } catch (err) {
+            alert(err instanceof Error ? err.message : "Could not open project file.");
+          }
+          return;
+        }
+
+        // Line features are treated as a road network extract
+        if (isGeoJsonRoadNetwork(geojson)) {
+          setRoadExtract({ name: file.name, elements: parseGeoJsonRoads(geojson) });
+          return;
+        }
         
+        // Several points become batch origins
+        const origins = parseOriginsFromGeoJson(geojson);
+        if (origins.length > 1) {
+          loadOrigins(origins);
+          return;
+        }
+
         // If it's a point, set it as POI
         if (geojson.type === 'FeatureCollection' || geojson.type === 'Feature') {
           const feature = geojson.type === 'Feature' ? geojson : geojson.features[0];
@@ -366,7 +1238,7 @@ const App: React.FC = () => {
           }
         }
       } catch (err) {
-        alert("Only valid GeoJSON is supported in this web preview.");
+        alert("Only GeoJSON, CSV, OSM XML and OSM PBF files are supported.");
       }
     };
     reader.readAsText(file);
@@ -377,46 +1249,178 @@ const App: React.FC = () => {
       <Sidebar 
         params={params}
         setParams={setParams}
-        isLoading={isLoading} 
+        isLoading={isLoading || isBatchRunning || isGapRunning} 
         history={history}
         isPoiSelected={!!activePoi}
         onRemoveItem={(idx) => setHistory(h => h.filter((_, i) => i !== idx))}
         onClearAll={() => setHistory([])}
+        onSaveProject={handleSaveProject}
+        onOverlay={handleOverlay}
+        heatmapNodes={heatmapNodes}
+        onToggleHeatmap={handleToggleHeatmap}
+        routeParams={routeItem?.params ?? null}
+        onInspectRoutes={handleInspectRoutes}
+        editingItem={editingItem}
+        onEditDrawn={(item) => setEditingItem(prev => prev === item ? null : item)}
+        onUseAsOrigin={applyDrawnOrigin}
+        onUseAsAvoidArea={avoidDrawnArea}
+        studyArea={studyArea}
+        onToggleStudyArea={(item) => setStudyArea(prev => prev === item ? null : item)}
         onExport={handleExport}
         onUpload={handleUpload}
         onStartAnalysis={() => calculateIsochrone()}
+        speedProfile={speedProfiles[params.mode]}
+        onSpeedProfileChange={(profile) => setSpeedProfiles(prev => ({ ...prev, [profile.mode]: profile }))}
+        roadExtract={roadExtract}
+        onClearRoadExtract={() => setRoadExtract(null)}
+        coveragePanel={
+          <CoveragePanel
+            populationLayerName={populationLayer?.name ?? null}
+            amenityLayerName={amenityLayer?.name ?? null}
+            onLoadPopulation={async (file) => {
+              try {
+                setPopulationLayer(parsePopulationLayer(file.name, await file.text()));
+              } catch (err) {
+                alert(err instanceof Error ? err.message : "Could not read population layer.");
+              }
+            }}
+            onLoadAmenities={async (file) => {
+              try {
+                const points = parseAmenityLayer(JSON.parse(await file.text()));
+                if (points.length === 0) throw new Error("No recognised amenities (schools, health, markets, transit) in the file.");
+                setAmenityLayer({ name: file.name, points });
+              } catch (err) {
+                alert(err instanceof Error ? err.message : "Could not read amenity layer.");
+              }
+            }}
+            onClearPopulation={() => setPopulationLayer(null)}
+            onClearAmenities={() => setAmenityLayer(null)}
+          />
+        }
+        transitPanel={
+          <TransitPanel
+            feed={transitFeed}
+            isLoadingFeed={isLoadingFeed}
+            params={params}
+            setParams={setParams}
+            onLoadFeed={async (file) => {
+              setIsLoadingFeed(true);
+              try {
+                setTransitFeed(await parseGtfsZip(file.name.replace(/\.zip$/i, ''), await file.arrayBuffer()));
+              } catch (err) {
+                alert(err instanceof Error ? err.message : "Could not read GTFS feed.");
+              } finally {
+                setIsLoadingFeed(false);
+              }
+            }}
+            onClearFeed={() => setTransitFeed(null)}
+          />
+        }
+        trafficPanel={
+          <TrafficPanel
+            params={params}
+            setParams={setParams}
+            observedSpeeds={observedSpeeds}
+            onLoadObservedSpeeds={async (file) => {
+              try {
+                setObservedSpeeds(parseObservedSpeedsCsv(file.name, await file.text()));
+              } catch (err) {
+                alert(err instanceof Error ? err.message : "Could not read speed CSV.");
+              }
+            }}
+            onClearObservedSpeeds={() => setObservedSpeeds(null)}
+          />
+        }
+        avoidancePanel={
+          <AvoidancePanel
+            params={params}
+            setParams={setParams}
+            onLoadAreas={async (file) => {
+              try {
+                const areas = parseAvoidAreas(JSON.parse(await file.text()));
+                setParams(prev => ({ ...prev, avoid: { ...prev.avoid, areas, areasName: file.name.replace(/\.(geo)?json$/i, '') } }));
+              } catch (err) {
+                alert(err instanceof Error ? err.message : "Could not read avoidance areas.");
+              }
+            }}
+          />
+        }
+        elevationPanel={
+          <ElevationPanel
+            elevation={elevation}
+            isLoading={isLoadingElevation}
+            onLoad={async (file) => {
+              setIsLoadingElevation(true);
+              try {
+                setElevation(await parseElevationFile(file.name, await file.arrayBuffer()));
+              } catch (err) {
+                alert(err instanceof Error ? err.message : "Could not read elevation model.");
+              } finally {
+                setIsLoadingElevation(false);
+              }
+            }}
+            onClear={() => setElevation(null)}
+          />
+        }
+        facilityPanel={
+          <FacilityPanel
+            plan={facilityPlan}
+            boundaryName={boundaryName}
+            minutes={params.minutes}
+            isRunning={isGapRunning}
+            onLoadFacilities={(file) => loadSites(file, 'facilities')}
+            onLoadCandidates={(file) => loadSites(file, 'candidates')}
+            onLoadBoundary={async (file) => {
+              try {
+                const boundary = parseBoundary(JSON.parse(await file.text()));
+                setFacilityPlan(prev => ({ ...prev, boundary }));
+                setBoundaryName(file.name);
+              } catch (err) {
+                alert(err instanceof Error ? err.message : "Could not read boundary.");
+              }
+            }}
+            onClearFacilities={() => setFacilityPlan(prev => ({ ...prev, facilities: [] }))}
+            onClearCandidates={() => setFacilityPlan(prev => ({ ...prev, candidates: [] }))}
+            onClearBoundary={() => {
+              setFacilityPlan(prev => ({ ...prev, boundary: null }));
+              setBoundaryName(null);
+            }}
+            onRun={runGapAnalysis}
+          />
+        }
+        batchPanel={batchOrigins.length > 0 && (
+          <BatchPanel
+            origins={batchOrigins}
+            statuses={batchStatuses}
+            isRunning={isBatchRunning}
+            onRun={runBatchAnalysis}
+            onCancel={() => abortRef.current?.abort()}
+            onClear={() => setBatchOrigins([])}
+          />
+        )}
       />
       
       <main className="flex-1 relative">
         <MapContainer 
-          center={DEFAULT_CENTER} 
+          center={initialUrlState.poi ?? DEFAULT_CENTER} 
           zoom={13} 
           scrollWheelZoom={true}
           className="w-full h-full"
         >
           <LayersControl position="topright">
-            <LayersControl.BaseLayer checked name="CartoDB Dark">
-              <TileLayer
-                url="https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png"
-                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
-              />
-            </LayersControl.BaseLayer>
-            <LayersControl.BaseLayer name="OpenStreetMap">
-              <TileLayer
-                url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-              />
-            </LayersControl.BaseLayer>
-            <LayersControl.BaseLayer name="Esri World Imagery">
-              <TileLayer
-                url="https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}"
-                attribution='Tiles &copy; Esri &mdash; Source: Esri, i-cubed, USDA, USGS, AEX, GeoEye, Getmapping, Aerogrid, IGN, IGP, UPR-EBP, and the GIS User Community'
-              />
-            </LayersControl.BaseLayer>
+            {BASEMAPS.map(({ name, url, attribution }) => (
+              <LayersControl.BaseLayer key={name} checked={name === basemap} name={name}>
+                <TileLayer url={url} attribution={attribution} />
+              </LayersControl.BaseLayer>
+            ))}
           </LayersControl>
 
           <ScaleControl position="bottomleft" />
-          <MapEvents onClick={handleMapClick} />
+          <MapEvents
+            onClick={drawing ? addDrawingVertex : routeItem ? traceRoute : handleMapClick}
+            onBaseLayerChange={setBasemap}
+          />
+          <MapFocus target={mapFocus} />
 
           {activePoi && (
             <Marker position={activePoi}>
@@ -444,7 +1448,7 @@ const App: React.FC = () => {
                         {TIME_INTERVALS.map(t => (
                           <button 
                             key={t}
-                            onClick={() => calculateIsochrone({ ...params, minutes: t })}
+                            onClick={() => calculateIsochrone({ ...params, minutes: t, bands: undefined })}
                             className="px-2 py-1 bg-white border border-slate-200 text-slate-700 text-[10px] font-bold rounded-md hover:border-indigo-300 hover:text-indigo-600 transition-all shadow-sm"
                           >
                             {t}m
@@ -467,25 +1471,142 @@ const App: React.FC = () => {
             </Marker>
           )}
 
-          {history.map((item, idx) => (
+          {batchOrigins.map(origin => (
+            <CircleMarker
+              key={`origin-${origin.id}`}
+              center={[origin.lat, origin.lng]}
+              radius={5}
+              pathOptions={{
+                color: '#6366f1',
+                fillColor: batchStatuses[origin.id]?.state === 'done' ? '#6366f1' : '#1e1b4b',
+                fillOpacity: 0.9,
+                weight: 2
+              }}
+            >
+              <Popup>
+                <span className="text-xs font-bold text-slate-900">{origin.id}</span>
+              </Popup>
+            </CircleMarker>
+          ))}
+
+          {surface && <SurfaceLayer surface={surface} />}
+
+          {route && (
+            <>
+              <Polyline
+                positions={route.coordinates.map(([lon, lat]) => [lat, lon] as [number, number])}
+                pathOptions={{ color: '#f8fafc', weight: 4, opacity: 0.9 }}
+              />
+              <CircleMarker
+                center={route.destination}
+                radius={5}
+                pathOptions={{ color: '#f8fafc', fillColor: '#6366f1', fillOpacity: 1, weight: 2 }}
+              />
+            </>
+          )}
+
+          {facilityPlan.facilities.map(site => (
+            <CircleMarker
+              key={`facility-${site.id}`}
+              center={[site.lat, site.lng]}
+              radius={5}
+              pathOptions={{ color: '#10b981', fillColor: '#10b981', fillOpacity: 0.9, weight: 2 }}
+            >
+              <Popup>
+                <span className="text-xs font-bold text-slate-900">Facility {site.id}</span>
+              </Popup>
+            </CircleMarker>
+          ))}
+
+          {facilityPlan.candidates.map(site => (
+            <CircleMarker
+              key={`candidate-${site.id}`}
+              center={[site.lat, site.lng]}
+              radius={5}
+              pathOptions={{ color: '#f59e0b', fillColor: '#451a03', fillOpacity: 0.9, weight: 2 }}
+            >
+              <Popup>
+                <span className="text-xs font-bold text-slate-900">Candidate {site.id}</span>
+              </Popup>
+            </CircleMarker>
+          ))}
+
+          {params.avoid?.areas && (
+            <GeoJSON
+              key={`avoid-${params.avoid.areasName}-${params.avoid.areas.features.length}`}
+              data={params.avoid.areas}
+              interactive={false}
+              style={{ color: '#f43f5e', fillColor: '#f43f5e', fillOpacity: 0.1, weight: 1.5, dashArray: '2, 4' }}
+            />
+          )}
+
+          {history.map((item, idx) => item.drawn ? (
+            <DrawingLayer
+              key={`${idx}-${item.drawn.name}`}
+              tool={item.drawn.tool}
+              vertices={getDrawnVertices(item)}
+              name={item.drawn.name}
+              editable={editingItem === item}
+              highlighted={studyArea === item}
+              onChange={(vertices) => updateDrawn(item, vertices)}
+            />
+          ) : (
             <GeoJSON 
               key={`${idx}-${JSON.stringify(item.params)}`} 
               data={item.polygon} 
-              style={{
-                color: item.params.mode === TransportMode.DRIVING ? '#f43f5e' : 
-                       item.params.mode === TransportMode.CYCLING ? '#f59e0b' : '#10b981',
-                fillColor: item.params.mode === TransportMode.DRIVING ? '#f43f5e' : 
-                          item.params.mode === TransportMode.CYCLING ? '#f59e0b' : '#10b981',
-                fillOpacity: 0.15,
-                weight: 2,
-                dashArray: '5, 5'
+              style={(feature) => {
+                const band = feature?.properties?.band;
+                const zone = feature?.properties?.zone;
+                if (item.gaps && zone) {
+                  return {
+                    color: GAP_ZONE_COLORS[zone],
+                    fillColor: GAP_ZONE_COLORS[zone],
+                    fillOpacity: zone === 'covered' ? 0.1 : 0.3,
+                    weight: 1
+                  };
+                }
+                const color = band !== undefined && item.params.bands
+                  ? getBandColor(band, item.params.bands)
+                  : item.overlay ? OVERLAY_COLOR : MODE_COLORS[item.params.mode];
+                return {
+                  color,
+                  fillColor: color,
+                  fillOpacity: band !== undefined ? 0.3 : 0.15,
+                  weight: band !== undefined ? 1 : 2,
+                  dashArray: band !== undefined ? undefined : '5, 5'
+                };
               }}
             />
           ))}
+          {drawing && (
+            <DrawingLayer
+              tool={drawing.tool}
+              vertices={drawing.vertices}
+              editable
+              onChange={(vertices) => setDrawing(prev => prev && { ...prev, vertices })}
+            />
+          )}
         </MapContainer>
 
+        <DrawingToolbar
+          activeTool={drawing?.tool ?? null}
+          vertexCount={drawing?.vertices.length ?? 0}
+          onStart={startDrawing}
+          onFinish={() => finishDrawing()}
+          onCancel={() => setDrawing(null)}
+        />
+
+        {routeItem && (
+          <RoutePanel
+            label={getResultLabel(routeItem)}
+            route={route}
+            isRouting={isRouting}
+            onClose={closeRoutes}
+          />
+        )}
+
         {/* Floating Indicator for Loading */}
-        {isLoading && (
+        {(isLoading || isGapRunning || isRouting) && (
           <div className="absolute top-6 left-1/2 -translate-x-1/2 z-[1000] bg-slate-900/95 border border-slate-700 px-6 py-3 rounded-full flex items-center gap-4 shadow-2xl backdrop-blur-md animate-in fade-in zoom-in-95 duration-200">
             <div className="relative">
               <Loader2 className="w-5 h-5 text-indigo-500 animate-spin" />
@@ -493,8 +1614,16 @@ const App: React.FC = () => {
             </div>
             <div className="flex flex-col">
               <span className="text-xs font-bold text-slate-100">Processing Graph</span>
-              <span className="text-[10px] text-slate-500">Retrieving OSM road network...</span>
+              <span className="text-[10px] text-slate-500">
+                {progress.stage || 'Starting worker'}...{progress.fraction > 0 && ` ${Math.round(Math.min(progress.fraction, 1) * 100)}%`}
+              </span>
             </div>
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="text-[10px] font-bold text-rose-400 hover:text-rose-300 px-2 py-1 border border-rose-500/30 rounded-full"
+            >
+              Cancel
+            </button>
           </div>
         )}
 
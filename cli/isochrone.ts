@@ -0,0 +1,117 @@
+// Command-line batch runner: one isochrone per origin in a CSV or GeoJSON file, over a local
+// OSM extract (or Overpass), written out as a single GeoJSON FeatureCollection.
+// Build with `npm run build:node`, then run `npm run isochrone -- --origins ... --network ...`.
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import {
+  BatchOrigin,
+  computeIsochrone,
+  IsochroneError,
+  IsochroneParams,
+  parseOriginsFromCsv,
+  parseOriginsFromGeoJson,
+  PolygonMethod,
+  tagWithOrigin,
+  TransportMode,
+  TravelDirection,
+  validateParams
+} from '../lib';
+import { readRoadExtract } from '../lib/files';
+
+const USAGE = `Usage: isochrone --origins <file> [options]
+
+  --origins <file>    Origins as CSV (lat/lng columns) or GeoJSON points
+  --network <file>    Road network: OSM XML (.osm), PBF (.pbf) or GeoJSON lines;
+                      queries the Overpass API when omitted
+  --mode <mode>       walking, cycling or driving (default walking)
+  --minutes <n>       Time limit in minutes (default 15)
+  --bands <list>      Several cutoffs, e.g. 5,10,15; overrides --minutes
+  --direction <dir>   outbound or inbound (default outbound)
+  --method <method>   network_buffer or concave_hull (default network_buffer)
+  --departure <time>  Local YYYY-MM-DDTHH:MM, for driving congestion
+  --out <file>        Output GeoJSON (default stdout)`;
+
+const fail = (message: string): never => {
+  process.stderr.write(`${message}\n\n${USAGE}\n`);
+  process.exit(1);
+};
+
+const pickOption = <T extends string>(value: string | undefined, allowed: T[], name: string): T | undefined => {
+  if (value !== undefined && !allowed.includes(value as T)) fail(`--${name} must be one of ${allowed.join(', ')}`);
+  return value as T | undefined;
+};
+
+const readOrigins = async (path: string): Promise<BatchOrigin[]> => {
+  const text = await readFile(path, 'utf8');
+  return /\.csv$/i.test(path) ? parseOriginsFromCsv(text) : parseOriginsFromGeoJson(JSON.parse(text));
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      origins: { type: 'string' },
+      network: { type: 'string' },
+      mode: { type: 'string' },
+      minutes: { type: 'string' },
+      bands: { type: 'string' },
+      direction: { type: 'string' },
+      method: { type: 'string' },
+      departure: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  if (values.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return;
+  }
+  if (!values.origins) fail('--origins is required');
+
+  // Transit needs a GTFS feed, which the CLI does not load
+  const mode = pickOption(values.mode, [TransportMode.WALKING, TransportMode.CYCLING, TransportMode.DRIVING], 'mode') ?? TransportMode.WALKING;
+  const bands = values.bands?.split(',').map(Number).sort((a, b) => a - b);
+  const params: Omit<IsochroneParams, 'lat' | 'lng'> = {
+    mode,
+    minutes: bands ? Math.max(...bands) : Number(values.minutes ?? 15),
+    bands,
+    direction: pickOption(values.direction, Object.values(TravelDirection), 'direction') ?? TravelDirection.OUTBOUND,
+    polygonMethod: pickOption(values.method, Object.values(PolygonMethod), 'method') ?? PolygonMethod.NETWORK_BUFFER,
+    departure: values.departure
+  };
+  try {
+    validateParams({ ...params, lat: 0, lng: 0 });
+  } catch (error) {
+    fail((error as Error).message);
+  }
+
+  const origins = await readOrigins(values.origins!);
+  if (origins.length === 0) fail(`No origins found in ${values.origins}`);
+  const network = values.network ? await readRoadExtract(values.network) : undefined;
+
+  const features: any[] = [];
+  let failedCount = 0;
+  for (const [i, origin] of origins.entries()) {
+    const originParams = { ...params, lat: origin.lat, lng: origin.lng };
+    try {
+      const { polygon } = await computeIsochrone(originParams, { network });
+      features.push(...tagWithOrigin(polygon, origin, originParams));
+      process.stderr.write(`[${i + 1}/${origins.length}] ${origin.id} done\n`);
+    } catch (error) {
+      // Unexpected errors are bugs, not per-origin failures
+      if (!(error instanceof IsochroneError)) throw error;
+      failedCount++;
+      process.stderr.write(`[${i + 1}/${origins.length}] ${origin.id} failed (${error.code}): ${error.message}\n`);
+    }
+  }
+
+  const output = JSON.stringify({ type: 'FeatureCollection', features });
+  if (values.out) await writeFile(values.out, output);
+  else process.stdout.write(`${output}\n`);
+  process.stderr.write(`${origins.length - failedCount} of ${origins.length} origins succeeded\n`);
+  if (failedCount === origins.length) process.exitCode = 1;
+};
+
+main().catch((error) => {
+  process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+  process.exit(1);
+});
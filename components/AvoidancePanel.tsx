@@ -0,0 +1,77 @@
+import React, { useRef } from 'react';
+import { Ban, X } from 'lucide-react';
+import { AvoidanceOptions, IsochroneParams } from '../types';
+
+const TOGGLES: { key: 'tolls' | 'ferries' | 'unpaved' | 'barriers'; label: string }[] = [
+  { key: 'tolls', label: 'Tolls' },
+  { key: 'ferries', label: 'Ferries' },
+  { key: 'unpaved', label: 'Unpaved' },
+  { key: 'barriers', label: 'Barriers' }
+];
+
+// Tagged ways and areas (e.g. flood zones) the routing must keep clear of
+const AvoidancePanel: React.FC<{
+  params: IsochroneParams;
+  setParams: React.Dispatch<React.SetStateAction<IsochroneParams>>;
+  onLoadAreas: (file: File) => void;
+}> = ({ params, setParams, onLoadAreas }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const avoid = params.avoid ?? {};
+  const update = (changes: Partial<AvoidanceOptions>) =>
+    setParams(prev => ({ ...prev, avoid: { ...prev.avoid, ...changes } }));
+  const areaCount = avoid.areas?.features?.length ?? 0;
+
+  return (
+    <section className="bg-slate-800 border border-slate-700 rounded-xl p-3 space-y-3">
+      <span className="flex items-center gap-2 text-xs text-slate-300">
+        <Ban className="w-3.5 h-3.5 text-indigo-400" />
+        Avoid
+      </span>
+      <div className="grid grid-cols-4 gap-1">
+        {TOGGLES.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => update({ [key]: !avoid[key] })}
+            className={`py-1 rounded text-[10px] font-medium ${
+              avoid[key] ? 'bg-indigo-600/20 text-indigo-300' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-col min-w-0">
+          <span className="text-[10px] text-slate-500 uppercase tracking-wider">Avoided areas</span>
+          <span className="text-[11px] text-slate-300 truncate">
+            {areaCount > 0 ? `${avoid.areasName} · ${areaCount} polygon${areaCount === 1 ? '' : 's'}` : 'None loaded'}
+          </span>
+        </div>
+        <input
+          type="file"
+          ref={fileInputRef}
+          accept=".geojson,.json"
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.[0]) onLoadAreas(e.target.files[0]);
+            e.target.value = '';
+          }}
+        />
+        {areaCount > 0 ? (
+          <button onClick={() => update({ areas: undefined, areasName: undefined })} className="p-1 text-slate-500 hover:text-rose-400">
+            <X className="w-3 h-3" />
+          </button>
+        ) : (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 font-medium shrink-0"
+          >
+            Load
+          </button>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default AvoidancePanel;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { CheckCircle2, Circle, Loader2, Play, Square, X, XCircle, Users } from 'lucide-react';
+import { BatchOrigin, BatchStatus } from '../types';
+
+const BatchPanel: React.FC<{
+  origins: BatchOrigin[];
+  statuses: Record<string, BatchStatus>;
+  isRunning: boolean;
+  onRun: () => void;
+  onCancel: () => void;
+  onClear: () => void;
+}> = ({ origins, statuses, isRunning, onRun, onCancel, onClear }) => {
+  const doneCount = origins.filter(o => statuses[o.id]?.state === 'done').length;
+  const failedCount = origins.filter(o => statuses[o.id]?.state === 'failed').length;
+
+  return (
+    <section className="bg-slate-800 border border-slate-700 rounded-xl p-3 space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="flex items-center gap-2 text-xs text-slate-300">
+          <Users className="w-3.5 h-3.5 text-indigo-400" />
+          Batch Origins
+          <span className="text-[10px] text-slate-500">
+            {doneCount}/{origins.length}{failedCount > 0 && `, ${failedCount} failed`}
+          </span>
+        </span>
+        {!isRunning && (
+          <button onClick={onClear} className="p-1 text-slate-500 hover:text-rose-400">
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+
+      <div className="max-h-40 overflow-y-auto space-y-1 pr-1">
+        {origins.map(origin => {
+          const status = statuses[origin.id] || { state: 'pending', fraction: 0 };
+          return (
+            <div key={origin.id} title={status.message} className="flex items-center gap-2">
+              {status.state === 'done' && <CheckCircle2 className="w-3 h-3 text-emerald-400 shrink-0" />}
+              {status.state === 'failed' && <XCircle className="w-3 h-3 text-rose-400 shrink-0" />}
+              {status.state === 'running' && <Loader2 className="w-3 h-3 text-indigo-400 animate-spin shrink-0" />}
+              {status.state === 'pending' && <Circle className="w-3 h-3 text-slate-600 shrink-0" />}
+              <span className="text-[11px] text-slate-300 truncate flex-1">{origin.id}</span>
+              {status.state === 'running' && (
+                <div className="h-1 w-12 bg-slate-700 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500" style={{ width: `${Math.round(Math.min(status.fraction, 1) * 100)}%` }} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={isRunning ? onCancel : onRun}
+        className={`w-full flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-bold transition-all ${
+          isRunning
+            ? 'bg-rose-600/20 text-rose-300 border border-rose-500/30 hover:bg-rose-600/30'
+            : 'bg-indigo-600 text-white hover:bg-indigo-500'
+        }`}
+      >
+        {isRunning ? <Square className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+        {isRunning ? 'Cancel Batch' : `Run Batch (${origins.length} origins)`}
+      </button>
+    </section>
+  );
+};
+
+export default BatchPanel;
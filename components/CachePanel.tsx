@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronRight, Database, Trash2, RefreshCw } from 'lucide-react';
+import { CacheSettings, CacheStats } from '../types';
+import { DEFAULT_CACHE_SETTINGS } from '../constants';
+import { clearCache, getCacheSettings, getCacheStats, saveCacheSettings } from '../services/cacheService';
+
+const formatBytes = (bytes: number) =>
+  bytes > 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const CachePanel: React.FC<{ refreshKey?: unknown }> = ({ refreshKey }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [settings, setSettings] = useState<CacheSettings>(DEFAULT_CACHE_SETTINGS);
+
+  const refresh = async () => {
+    try {
+      setStats(await getCacheStats());
+      setSettings(await getCacheSettings());
+    } catch (e) {
+      console.error('Could not read road-network cache', e);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refreshKey]);
+
+  const updateSettings = async (next: CacheSettings) => {
+    setSettings(next);
+    await saveCacheSettings(next);
+    refresh();
+  };
+
+  return (
+    <section className="bg-slate-800 border border-slate-700 rounded-xl">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="w-full flex items-center justify-between p-3 text-xs text-slate-300"
+      >
+        <span className="flex items-center gap-2">
+          <Database className="w-3.5 h-3.5 text-indigo-400" />
+          Network Cache
+          {stats && <span className="text-[10px] text-slate-500">{formatBytes(stats.totalBytes)}</span>}
+        </span>
+        <ChevronRight className={`w-3.5 h-3.5 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-2">
+          {stats && (
+            <div className="grid grid-cols-2 gap-1 text-[11px] text-slate-400">
+              <span>Tiles</span><span className="text-right text-slate-200">{stats.tileCount}</span>
+              <span>Graphs</span><span className="text-right text-slate-200">{stats.graphCount}</span>
+              <span>Size</span><span className="text-right text-slate-200">{formatBytes(stats.totalBytes)}</span>
+              <span>Oldest</span>
+              <span className="text-right text-slate-200">
+                {stats.oldestEntry ? new Date(stats.oldestEntry).toLocaleDateString() : '-'}
+              </span>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-2 pt-2 border-t border-slate-700">
+            <span className="text-[11px] text-slate-400">Expire after (hours)</span>
+            <input
+              type="number"
+              min={1}
+              value={settings.ttlHours}
+              onChange={(e) => updateSettings({ ...settings, ttlHours: parseFloat(e.target.value) || 1 })}
+              className="w-16 bg-slate-700 text-[11px] text-slate-200 rounded px-1.5 py-0.5 text-right"
+            />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-[11px] text-slate-400">Size limit (MB)</span>
+            <input
+              type="number"
+              min={10}
+              value={settings.maxSizeMB}
+              onChange={(e) => updateSettings({ ...settings, maxSizeMB: parseFloat(e.target.value) || 10 })}
+              className="w-16 bg-slate-700 text-[11px] text-slate-200 rounded px-1.5 py-0.5 text-right"
+            />
+          </div>
+
+          <div className="flex gap-2 pt-1">
+            <button
+              onClick={refresh}
+              className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 font-medium"
+            >
+              <RefreshCw className="w-3 h-3" /> Refresh
+            </button>
+            <button
+              onClick={async () => { await clearCache(); refresh(); }}
+              className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-rose-400 font-medium"
+            >
+              <Trash2 className="w-3 h-3" /> Clear
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default CachePanel;
@@ -0,0 +1,67 @@
+import React, { useRef } from 'react';
+import { BarChart3, X } from 'lucide-react';
+
+// Optional local layers used by coverage statistics
+const CoveragePanel: React.FC<{
+  populationLayerName: string | null;
+  amenityLayerName: string | null;
+  onLoadPopulation: (file: File) => void;
+  onLoadAmenities: (file: File) => void;
+  onClearPopulation: () => void;
+  onClearAmenities: () => void;
+}> = ({ populationLayerName, amenityLayerName, onLoadPopulation, onLoadAmenities, onClearPopulation, onClearAmenities }) => {
+  const populationInputRef = useRef<HTMLInputElement>(null);
+  const amenityInputRef = useRef<HTMLInputElement>(null);
+
+  const row = (
+    label: string,
+    name: string | null,
+    fallback: string,
+    inputRef: React.RefObject<HTMLInputElement | null>,
+    accept: string,
+    onLoad: (file: File) => void,
+    onClear: () => void
+  ) => (
+    <div className="flex items-center justify-between gap-2">
+      <div className="flex flex-col min-w-0">
+        <span className="text-[10px] text-slate-500 uppercase tracking-wider">{label}</span>
+        <span className="text-[11px] text-slate-300 truncate">{name || fallback}</span>
+      </div>
+      <input
+        type="file"
+        ref={inputRef}
+        accept={accept}
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files?.[0]) onLoad(e.target.files[0]);
+          e.target.value = '';
+        }}
+      />
+      {name ? (
+        <button onClick={onClear} className="p-1 text-slate-500 hover:text-rose-400">
+          <X className="w-3 h-3" />
+        </button>
+      ) : (
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 font-medium shrink-0"
+        >
+          Load
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <section className="bg-slate-800 border border-slate-700 rounded-xl p-3 space-y-2">
+      <span className="flex items-center gap-2 text-xs text-slate-300">
+        <BarChart3 className="w-3.5 h-3.5 text-indigo-400" />
+        Coverage Data
+      </span>
+      {row('Population', populationLayerName, 'None loaded', populationInputRef, '.geojson,.json,.csv', onLoadPopulation, onClearPopulation)}
+      {row('Amenities', amenityLayerName, 'From road source', amenityInputRef, '.geojson,.json', onLoadAmenities, onClearAmenities)}
+    </section>
+  );
+};
+
+export default CoveragePanel;
@@ -0,0 +1,19 @@
+import React from 'react';
+
+// Local departure date and time; an empty value clears it
+const DepartureInput: React.FC<{
+  value?: string;
+  onChange: (departure: string | undefined) => void;
+}> = ({ value, onChange }) => (
+  <label className="flex flex-col gap-1 text-[10px] text-slate-500 uppercase tracking-wider">
+    Departure
+    <input
+      type="datetime-local"
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value || undefined)}
+      className="bg-slate-700 text-[11px] text-slate-200 rounded-md px-2 py-1.5 normal-case tracking-normal"
+    />
+  </label>
+);
+
+export default DepartureInput;
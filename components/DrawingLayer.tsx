@@ -0,0 +1,69 @@
+import React from 'react';
+import { CircleMarker, Marker, Polygon, Polyline, Tooltip } from 'react-leaflet';
+import L from 'leaflet';
+import { DrawingTool } from '../types';
+import { MIN_VERTICES, Vertex } from '../services/drawingService';
+
+const DRAWING_COLOR = '#38bdf8';
+
+const vertexIcon = L.divIcon({
+  className: '',
+  html: '<div style="width:10px;height:10px;border-radius:9999px;background:#0f172a;border:2px solid #38bdf8"></div>',
+  iconSize: [10, 10],
+  iconAnchor: [5, 5]
+});
+
+// A drawn feature or the sketch in progress. When editable, every vertex gets a handle:
+// drag it to move the vertex, right-click it to delete the vertex.
+const DrawingLayer: React.FC<{
+  tool: DrawingTool;
+  vertices: Vertex[];
+  name?: string;
+  editable?: boolean;
+  highlighted?: boolean;
+  onChange?: (vertices: Vertex[]) => void;
+}> = ({ tool, vertices, name, editable = false, highlighted = false, onChange }) => {
+  const pathOptions = {
+    color: DRAWING_COLOR,
+    fillColor: DRAWING_COLOR,
+    fillOpacity: highlighted ? 0.15 : 0.05,
+    weight: highlighted ? 3 : 2,
+    dashArray: editable ? '4, 4' : undefined
+  };
+  const label = name && <Tooltip sticky>{name}</Tooltip>;
+  const moveVertex = (index: number, vertex: Vertex) =>
+    onChange?.(vertices.map((v, i) => i === index ? vertex : v));
+  const deleteVertex = (index: number) => {
+    if (vertices.length > MIN_VERTICES[tool]) onChange?.(vertices.filter((_, i) => i !== index));
+  };
+
+  return (
+    <>
+      {tool === DrawingTool.POINT && vertices.length > 0 && !editable && (
+        <CircleMarker center={vertices[0]} radius={6} pathOptions={{ ...pathOptions, fillOpacity: 0.9 }}>{label}</CircleMarker>
+      )}
+      {tool === DrawingTool.POLYGON && vertices.length >= 3 ? (
+        <Polygon positions={vertices} pathOptions={pathOptions}>{label}</Polygon>
+      ) : tool !== DrawingTool.POINT && vertices.length >= 2 && (
+        <Polyline positions={vertices} pathOptions={pathOptions}>{label}</Polyline>
+      )}
+      {editable && vertices.map((vertex, i) => (
+        <Marker
+          key={i}
+          position={vertex}
+          icon={vertexIcon}
+          draggable
+          eventHandlers={{
+            dragend: (e) => {
+              const { lat, lng } = (e.target as L.Marker).getLatLng();
+              moveVertex(i, [lat, lng]);
+            },
+            contextmenu: () => deleteVertex(i)
+          }}
+        />
+      ))}
+    </>
+  );
+};
+
+export default DrawingLayer;
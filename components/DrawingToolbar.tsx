@@ -0,0 +1,56 @@
+import React from 'react';
+import { Check, MapPin, Pentagon, Spline, X } from 'lucide-react';
+import { DrawingTool } from '../types';
+import { MIN_VERTICES } from '../services/drawingService';
+
+const TOOLS: { tool: DrawingTool; label: string; icon: React.ReactNode }[] = [
+  { tool: DrawingTool.POINT, label: 'Draw a point', icon: <MapPin className="w-4 h-4" /> },
+  { tool: DrawingTool.LINE, label: 'Draw a line', icon: <Spline className="w-4 h-4" /> },
+  { tool: DrawingTool.POLYGON, label: 'Draw a polygon', icon: <Pentagon className="w-4 h-4" /> }
+];
+
+// Floating map controls; while a tool is active, map clicks add vertices to the sketch
+const DrawingToolbar: React.FC<{
+  activeTool: DrawingTool | null;
+  vertexCount: number;
+  onStart: (tool: DrawingTool) => void;
+  onFinish: () => void;
+  onCancel: () => void;
+}> = ({ activeTool, vertexCount, onStart, onFinish, onCancel }) => (
+  <div className="absolute top-24 left-3 z-[1000] flex flex-col gap-1 bg-slate-900/95 border border-slate-700 rounded-xl p-1 shadow-2xl backdrop-blur-md">
+    {TOOLS.map(({ tool, label, icon }) => (
+      <button
+        key={tool}
+        title={label}
+        onClick={() => activeTool === tool ? onCancel() : onStart(tool)}
+        className={`p-1.5 rounded-lg transition-colors ${
+          activeTool === tool ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:bg-slate-800 hover:text-slate-200'
+        }`}
+      >
+        {icon}
+      </button>
+    ))}
+    {activeTool && activeTool !== DrawingTool.POINT && (
+      <>
+        <div className="border-t border-slate-700 my-0.5" />
+        <button
+          title="Finish the sketch"
+          disabled={vertexCount < MIN_VERTICES[activeTool]}
+          onClick={onFinish}
+          className="p-1.5 rounded-lg text-emerald-400 hover:bg-slate-800 disabled:text-slate-600 disabled:hover:bg-transparent disabled:cursor-not-allowed"
+        >
+          <Check className="w-4 h-4" />
+        </button>
+        <button
+          title="Discard the sketch"
+          onClick={onCancel}
+          className="p-1.5 rounded-lg text-rose-400 hover:bg-slate-800"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </>
+    )}
+  </div>
+);
+
+export default DrawingToolbar;
@@ -0,0 +1,58 @@
+import React, { useRef } from 'react';
+import { Loader2, Mountain, X } from 'lucide-react';
+import { ElevationModel } from '../types';
+
+// Local elevation model for hill-aware walking and cycling times
+const ElevationPanel: React.FC<{
+  elevation: ElevationModel | null;
+  isLoading: boolean;
+  onLoad: (file: File) => void;
+  onClear: () => void;
+}> = ({ elevation, isLoading, onLoad, onClear }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <section className="bg-slate-800 border border-slate-700 rounded-xl p-3 space-y-2">
+      <span className="flex items-center gap-2 text-xs text-slate-300">
+        <Mountain className="w-3.5 h-3.5 text-indigo-400" />
+        Terrain
+      </span>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-col min-w-0">
+          <span className="text-[10px] text-slate-500 uppercase tracking-wider">Elevation model</span>
+          <span className="text-[11px] text-slate-300 truncate">
+            {elevation
+              ? `${elevation.name} · ${Math.round(elevation.minElevation)}–${Math.round(elevation.maxElevation)} m`
+              : 'None loaded (flat)'}
+          </span>
+        </div>
+        <input
+          type="file"
+          ref={fileInputRef}
+          accept=".tif,.tiff,.hgt"
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.[0]) onLoad(e.target.files[0]);
+            e.target.value = '';
+          }}
+        />
+        {isLoading ? (
+          <Loader2 className="w-3 h-3 animate-spin text-slate-400" />
+        ) : elevation ? (
+          <button onClick={onClear} className="p-1 text-slate-500 hover:text-rose-400">
+            <X className="w-3 h-3" />
+          </button>
+        ) : (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 font-medium shrink-0"
+          >
+            Load DEM
+          </button>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default ElevationPanel;
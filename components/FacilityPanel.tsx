@@ -0,0 +1,97 @@
+import React, { useRef } from 'react';
+import { Loader2, MapPinned, Play, X } from 'lucide-react';
+import { FacilityPlan } from '../types';
+
+// Existing facilities, candidate sites and an optional district boundary for gap analysis
+const FacilityPanel: React.FC<{
+  plan: FacilityPlan;
+  boundaryName: string | null;
+  minutes: number;
+  isRunning: boolean;
+  onLoadFacilities: (file: File) => void;
+  onLoadCandidates: (file: File) => void;
+  onLoadBoundary: (file: File) => void;
+  onClearFacilities: () => void;
+  onClearCandidates: () => void;
+  onClearBoundary: () => void;
+  onRun: () => void;
+}> = ({
+  plan,
+  boundaryName,
+  minutes,
+  isRunning,
+  onLoadFacilities,
+  onLoadCandidates,
+  onLoadBoundary,
+  onClearFacilities,
+  onClearCandidates,
+  onClearBoundary,
+  onRun
+}) => {
+  const facilityInputRef = useRef<HTMLInputElement>(null);
+  const candidateInputRef = useRef<HTMLInputElement>(null);
+  const boundaryInputRef = useRef<HTMLInputElement>(null);
+
+  const row = (
+    label: string,
+    value: string | null,
+    fallback: string,
+    inputRef: React.RefObject<HTMLInputElement | null>,
+    accept: string,
+    onLoad: (file: File) => void,
+    onClear: () => void
+  ) => (
+    <div className="flex items-center justify-between gap-2">
+      <div className="flex flex-col min-w-0">
+        <span className="text-[10px] text-slate-500 uppercase tracking-wider">{label}</span>
+        <span className="text-[11px] text-slate-300 truncate">{value || fallback}</span>
+      </div>
+      <input
+        type="file"
+        ref={inputRef}
+        accept={accept}
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files?.[0]) onLoad(e.target.files[0]);
+          e.target.value = '';
+        }}
+      />
+      {value ? (
+        <button onClick={onClear} disabled={isRunning} className="p-1 text-slate-500 hover:text-rose-400">
+          <X className="w-3 h-3" />
+        </button>
+      ) : (
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 font-medium shrink-0"
+        >
+          Load
+        </button>
+      )}
+    </div>
+  );
+
+  const count = (n: number, noun: string) => (n > 0 ? `${n} ${noun}${n === 1 ? '' : 's'}` : null);
+
+  return (
+    <section className="bg-slate-800 border border-slate-700 rounded-xl p-3 space-y-2">
+      <span className="flex items-center gap-2 text-xs text-slate-300">
+        <MapPinned className="w-3.5 h-3.5 text-indigo-400" />
+        Facility Coverage Gaps
+      </span>
+      {row('Existing facilities', count(plan.facilities.length, 'site'), 'None loaded', facilityInputRef, '.csv,.geojson,.json', onLoadFacilities, onClearFacilities)}
+      {row('Candidate sites', count(plan.candidates.length, 'site'), 'None loaded', candidateInputRef, '.csv,.geojson,.json', onLoadCandidates, onClearCandidates)}
+      {row('District boundary', boundaryName, 'Around the sites', boundaryInputRef, '.geojson,.json', onLoadBoundary, onClearBoundary)}
+      <button
+        onClick={onRun}
+        disabled={isRunning || plan.facilities.length === 0}
+        className="w-full flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-bold bg-indigo-600 text-white hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-500 transition-all"
+      >
+        {isRunning ? <Loader2 className="w-3 h-3 animate-spin" /> : <Play className="w-3 h-3" />}
+        Find Gaps ({minutes} min)
+      </button>
+    </section>
+  );
+};
+
+export default FacilityPanel;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Loader2, Route, X } from 'lucide-react';
+import { RouteResult } from '../types';
+
+// Floating details of the traced route, or a prompt while waiting for a destination
+const RoutePanel: React.FC<{
+  label: string;
+  route: RouteResult | null;
+  isRouting: boolean;
+  onClose: () => void;
+}> = ({ label, route, isRouting, onClose }) => {
+  const classes = route
+    ? Object.entries(route.byHighway).sort(([, a], [, b]) => b.distanceMeters - a.distanceMeters)
+    : [];
+
+  return (
+    <div className="absolute top-24 right-4 z-[1000] w-64 bg-slate-900/95 border border-slate-700 rounded-2xl shadow-2xl backdrop-blur-md p-4 space-y-3">
+      <div className="flex justify-between items-start gap-2">
+        <div className="flex flex-col min-w-0">
+          <span className="flex items-center gap-2 text-xs font-bold text-slate-100">
+            <Route className="w-3.5 h-3.5 text-indigo-400" />
+            Route Inspection
+          </span>
+          <span className="text-[10px] text-slate-500 truncate capitalize">{label}</span>
+        </div>
+        <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {isRouting ? (
+        <p className="flex items-center gap-2 text-[11px] text-slate-400">
+          <Loader2 className="w-3 h-3 animate-spin" /> Tracing route...
+        </p>
+      ) : !route ? (
+        <p className="text-[11px] text-slate-400">Click a destination inside the isochrone.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2 text-[10px] text-slate-400">
+            <span>Time <b className="text-slate-100 text-xs">{(route.seconds / 60).toFixed(1)} min</b></span>
+            <span>Distance <b className="text-slate-100 text-xs">{(route.distanceMeters / 1000).toFixed(2)} km</b></span>
+          </div>
+          <div className="space-y-1.5">
+            {classes.map(([highway, { seconds, distanceMeters }]) => (
+              <div key={highway}>
+                <div className="flex justify-between text-[10px] text-slate-400">
+                  <span className="text-slate-300">{highway}</span>
+                  <span>{(distanceMeters / 1000).toFixed(2)} km · {(seconds / 60).toFixed(1)} min</span>
+                </div>
+                <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+                  <div className="h-full bg-indigo-500" style={{ width: `${(distanceMeters / route.distanceMeters) * 100}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-500">Click elsewhere to trace another destination.</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RoutePanel;
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { ChevronRight, RotateCcw, Save, Trash2, Gauge } from 'lucide-react';
+import { SpeedProfile } from '../types';
+import { DEFAULT_SPEED_PROFILES } from '../constants';
+import {
+  cloneProfile,
+  loadSpeedPresets,
+  saveSpeedPreset,
+  deleteSpeedPreset
+} from '../services/speedProfileService';
+
+const SpeedProfilePanel: React.FC<{
+  profile: SpeedProfile;
+  onChange: (profile: SpeedProfile) => void;
+}> = ({ profile, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [presets, setPresets] = useState<SpeedProfile[]>(() => loadSpeedPresets());
+  const [presetName, setPresetName] = useState('');
+  const [congestionDay, setCongestionDay] = useState<'weekday' | 'weekend'>('weekday');
+  const [congestionClass, setCongestionClass] = useState('*');
+
+  const modePresets = presets.filter(p => p.mode === profile.mode);
+
+  const setHighwaySpeed = (highway: string, speed: number) => {
+    onChange({ ...profile, highwaySpeeds: { ...profile.highwaySpeeds, [highway]: speed } });
+  };
+
+  const congestionTable = profile.congestion?.[congestionDay];
+  const congestionFactors = congestionTable?.[congestionClass] ?? congestionTable?.['*'] ?? [];
+
+  const setCongestionFactor = (hour: number, factor: number) => {
+    if (!profile.congestion) return;
+    const factors = [...congestionFactors];
+    factors[hour] = factor;
+    onChange({
+      ...profile,
+      congestion: {
+        ...profile.congestion,
+        [congestionDay]: { ...profile.congestion[congestionDay], [congestionClass]: factors }
+      }
+    });
+  };
+
+  const handleSave = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const saved = { ...profile, name };
+    setPresets(saveSpeedPreset(saved));
+    onChange(saved);
+    setPresetName('');
+  };
+
+  const handleLoad = (name: string) => {
+    const preset = modePresets.find(p => p.name === name);
+    if (preset) onChange(cloneProfile(preset));
+  };
+
+  return (
+    <section className="bg-slate-800 border border-slate-700 rounded-xl">
+      <button
+        onClick={() => setIsOpen(o => !o)}
+        className="w-full flex items-center justify-between p-3 text-xs text-slate-300"
+      >
+        <span className="flex items-center gap-2">
+          <Gauge className="w-3.5 h-3.5 text-indigo-400" />
+          Speed Profile
+          <span className="text-[10px] text-slate-500 truncate max-w-[110px]">{profile.name}</span>
+        </span>
+        <ChevronRight className={`w-3.5 h-3.5 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="px-3 pb-3 space-y-3">
+          <div className="flex gap-2">
+            <select
+              value=""
+              onChange={(e) => handleLoad(e.target.value)}
+              className="flex-1 bg-slate-700 text-[11px] text-slate-300 rounded-md px-2 py-1.5"
+            >
+              <option value="" disabled>Load preset...</option>
+              {modePresets.map(p => (
+                <option key={p.name} value={p.name}>{p.name}</option>
+              ))}
+            </select>
+            <button
+              title="Reset to Indonesia defaults"
+              onClick={() => onChange(cloneProfile(DEFAULT_SPEED_PROFILES[profile.mode]))}
+              className="p-1.5 bg-slate-700 hover:bg-slate-600 rounded-md text-slate-400"
+            >
+              <RotateCcw className="w-3 h-3" />
+            </button>
+            {modePresets.some(p => p.name === profile.name) && (
+              <button
+                title="Delete this preset"
+                onClick={() => setPresets(deleteSpeedPreset(profile.name, profile.mode))}
+                className="p-1.5 bg-slate-700 hover:bg-slate-600 rounded-md text-rose-400"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-48 overflow-y-auto space-y-1 pr-1">
+            {Object.entries(profile.highwaySpeeds).map(([highway, speed]) => (
+              <div key={highway} className="flex items-center justify-between gap-2">
+                <span className="text-[11px] text-slate-400 font-mono">{highway}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={speed}
+                  onChange={(e) => setHighwaySpeed(highway, parseFloat(e.target.value) || 0)}
+                  className="w-16 bg-slate-700 text-[11px] text-slate-200 rounded px-1.5 py-0.5 text-right"
+                />
+              </div>
+            ))}
+            <div className="flex items-center justify-between gap-2 pt-1 border-t border-slate-700">
+              <span className="text-[11px] text-slate-400">Other classes</span>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={profile.defaultSpeed}
+                onChange={(e) => onChange({ ...profile, defaultSpeed: parseFloat(e.target.value) || 0 })}
+                className="w-16 bg-slate-700 text-[11px] text-slate-200 rounded px-1.5 py-0.5 text-right"
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-[11px] text-slate-400">Maxspeed factor</span>
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={profile.maxspeedFactor}
+                onChange={(e) => onChange({ ...profile, maxspeedFactor: parseFloat(e.target.value) || 0 })}
+                className="w-16 bg-slate-700 text-[11px] text-slate-200 rounded px-1.5 py-0.5 text-right"
+              />
+            </div>
+          </div>
+
+          {profile.congestion && (
+            <div className="space-y-2 pt-2 border-t border-slate-700">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-[11px] text-slate-400">Congestion</span>
+                <div className="flex gap-1">
+                  <select
+                    value={congestionDay}
+                    onChange={(e) => setCongestionDay(e.target.value as 'weekday' | 'weekend')}
+                    className="bg-slate-700 text-[11px] text-slate-300 rounded px-1.5 py-0.5"
+                  >
+                    <option value="weekday">Weekday</option>
+                    <option value="weekend">Weekend</option>
+                  </select>
+                  <select
+                    value={congestionClass}
+                    onChange={(e) => setCongestionClass(e.target.value)}
+                    className="bg-slate-700 text-[11px] text-slate-300 rounded px-1.5 py-0.5"
+                  >
+                    {Object.keys(profile.highwaySpeeds).filter(h => !h.endsWith('_link')).map(h => (
+                      <option key={h} value={h}>{h}</option>
+                    ))}
+                    <option value="*">other</option>
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-6 gap-1">
+                {congestionFactors.map((factor, hour) => (
+                  <label key={hour} className="flex flex-col items-center text-[9px] text-slate-500 font-mono">
+                    {String(hour).padStart(2, '0')}
+                    <input
+                      type="number"
+                      min={0.05}
+                      max={1.5}
+                      step={0.05}
+                      value={factor}
+                      onChange={(e) => setCongestionFactor(hour, parseFloat(e.target.value) || 1)}
+                      className="w-full bg-slate-700 text-[10px] text-slate-200 rounded px-0.5 py-0.5 text-center"
+                    />
+                  </label>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-500">Share of free-flow speed per hour, used when a departure is set.</p>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Preset name"
+              className="flex-1 bg-slate-700 text-[11px] text-slate-200 rounded-md px-2 py-1.5 placeholder:text-slate-500"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!presetName.trim()}
+              className="flex items-center gap-1 px-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-500 rounded-md text-[10px] font-bold text-white"
+            >
+              <Save className="w-3 h-3" /> Save
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-500">Speeds in km/h. Set a class to 0 to exclude it.</p>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default SpeedProfilePanel;
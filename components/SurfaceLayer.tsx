@@ -0,0 +1,48 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { ImageOverlay, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { TravelTimeSurface } from '../types';
+import { getRampColor, getSurfaceBounds, getSurfaceValue } from '../services/surfaceService';
+
+// Paint the grid into an image, one pixel per cell; unreached cells stay transparent
+const renderSurface = (surface: TravelTimeSurface): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = surface.cols;
+  canvas.height = surface.rows;
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.createImageData(surface.cols, surface.rows);
+  surface.minutes.forEach((minutes, i) => {
+    if (Number.isNaN(minutes)) return;
+    const [r, g, b] = getRampColor(minutes / surface.maxMinutes);
+    image.data.set([r, g, b, 255], i * 4);
+  });
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL();
+};
+
+// Continuous travel-time heatmap with the minutes under the cursor
+const SurfaceLayer: React.FC<{ surface: TravelTimeSurface }> = ({ surface }) => {
+  const map = useMap();
+  const url = useMemo(() => renderSurface(surface), [surface]);
+  const tooltipRef = useRef(L.tooltip({ direction: 'top', offset: [0, -8] }));
+
+  useEffect(() => () => { map.closeTooltip(tooltipRef.current); }, [map]);
+
+  useMapEvents({
+    mousemove: (e) => {
+      const minutes = getSurfaceValue(surface, e.latlng.lat, e.latlng.lng);
+      const tooltip = tooltipRef.current;
+      if (minutes === null) {
+        map.closeTooltip(tooltip);
+        return;
+      }
+      tooltip.setLatLng(e.latlng).setContent(`${minutes.toFixed(1)} min`);
+      if (!map.hasLayer(tooltip)) map.openTooltip(tooltip);
+    },
+    mouseout: () => { map.closeTooltip(tooltipRef.current); }
+  });
+
+  return <ImageOverlay url={url} bounds={getSurfaceBounds(surface)} opacity={0.65} className="travel-time-surface" />;
+};
+
+export default SurfaceLayer;
@@ -0,0 +1,75 @@
+import React, { useRef } from 'react';
+import { TrafficCone, X } from 'lucide-react';
+import { IsochroneParams, ObservedSpeeds } from '../types';
+import { getDefaultDeparture } from '../services/departureService';
+import DepartureInput from './DepartureInput';
+
+// Driving time-of-day settings: departure for congestion factors and observed way speeds
+const TrafficPanel: React.FC<{
+  params: IsochroneParams;
+  setParams: React.Dispatch<React.SetStateAction<IsochroneParams>>;
+  observedSpeeds: ObservedSpeeds | null;
+  onLoadObservedSpeeds: (file: File) => void;
+  onClearObservedSpeeds: () => void;
+}> = ({ params, setParams, observedSpeeds, onLoadObservedSpeeds, onClearObservedSpeeds }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isFreeFlow = !params.departure;
+
+  return (
+    <section className="bg-slate-800 border border-slate-700 rounded-xl p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-xs text-slate-300">
+          <TrafficCone className="w-3.5 h-3.5 text-indigo-400" />
+          Traffic
+        </span>
+        <button
+          onClick={() => setParams(prev => ({ ...prev, departure: isFreeFlow ? getDefaultDeparture() : undefined }))}
+          className={`px-2 py-0.5 rounded text-[10px] font-medium ${
+            isFreeFlow ? 'bg-indigo-600/20 text-indigo-300' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'
+          }`}
+        >
+          Free flow
+        </button>
+      </div>
+
+      {!isFreeFlow && (
+        <DepartureInput value={params.departure} onChange={(departure) => setParams(prev => ({ ...prev, departure }))} />
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-col min-w-0">
+          <span className="text-[10px] text-slate-500 uppercase tracking-wider">Observed speeds</span>
+          <span className="text-[11px] text-slate-300 truncate">
+            {observedSpeeds
+              ? `${observedSpeeds.name} · ${Object.keys(observedSpeeds.speeds).length.toLocaleString()} ways`
+              : 'None loaded'}
+          </span>
+        </div>
+        <input
+          type="file"
+          ref={fileInputRef}
+          accept=".csv"
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.[0]) onLoadObservedSpeeds(e.target.files[0]);
+            e.target.value = '';
+          }}
+        />
+        {observedSpeeds ? (
+          <button onClick={onClearObservedSpeeds} className="p-1 text-slate-500 hover:text-rose-400">
+            <X className="w-3 h-3" />
+          </button>
+        ) : (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded text-[10px] text-slate-300 font-medium shrink-0"
+          >
+            Load CSV
+          </button>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default TrafficPanel;
@@ -0,0 +1,71 @@
+import React, { useRef } from 'react';
+import { Bus, X } from 'lucide-react';
+import { IsochroneParams, TransitFeed } from '../types';
+import { DEFAULT_MAX_TRANSFERS } from '../constants';
+import DepartureInput from './DepartureInput';
+
+const TransitPanel: React.FC<{
+  feed: TransitFeed | null;
+  isLoadingFeed: boolean;
+  params: IsochroneParams;
+  setParams: React.Dispatch<React.SetStateAction<IsochroneParams>>;
+  onLoadFeed: (file: File) => void;
+  onClearFeed: () => void;
+}> = ({ feed, isLoadingFeed, params, setParams, onLoadFeed, onClearFeed }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <section className="bg-slate-800 border border-slate-700 rounded-xl p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 text-xs text-slate-300 min-w-0">
+          <Bus className="w-3.5 h-3.5 text-indigo-400 shrink-0" />
+          <span className="truncate">{feed ? feed.name : 'No GTFS feed loaded'}</span>
+        </span>
+        <input
+          type="file"
+          ref={fileInputRef}
+          accept=".zip"
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.[0]) onLoadFeed(e.target.files[0]);
+            e.target.value = '';
+          }}
+        />
+        {feed ? (
+          <button onClick={onClearFeed} className="p-1 text-slate-500 hover:text-rose-400">
+            <X className="w-3 h-3" />
+          </button>
+        ) : (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoadingFeed}
+            className="px-2 py-1 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-700 disabled:text-slate-500 rounded text-[10px] font-bold text-white shrink-0"
+          >
+            {isLoadingFeed ? 'Reading...' : 'Load GTFS'}
+          </button>
+        )}
+      </div>
+      {feed && (
+        <p className="text-[10px] text-slate-500">
+          {feed.stops.length.toLocaleString()} stops · {feed.patterns.length.toLocaleString()} route patterns
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <DepartureInput value={params.departure} onChange={(departure) => setParams(prev => ({ ...prev, departure }))} />
+        <label className="flex items-center justify-between gap-2 text-[11px] text-slate-400">
+          Max transfers
+          <select
+            value={params.maxTransfers ?? DEFAULT_MAX_TRANSFERS}
+            onChange={(e) => setParams(prev => ({ ...prev, maxTransfers: parseInt(e.target.value, 10) }))}
+            className="bg-slate-700 text-[11px] text-slate-200 rounded px-1.5 py-0.5"
+          >
+            {[0, 1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+    </section>
+  );
+};
+
+export default TransitPanel;
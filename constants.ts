@@ -1,3 +1,5 @@
+import { AmenityCategory, CacheSettings, CongestionProfile, SpeedProfile, TransportMode } from './types';
+
 
 export const INDONESIA_BBOX = {
   minLat: -11.0,
@@ -11,7 +13,179 @@ export const DEFAULT_CENTER: [number, number] = [-6.2088, 106.8456]; // Jakarta
 export const TRANSPORT_SPEEDS = {
   walking: 5,   // km/h
   cycling: 15,  // km/h
-  driving: 40   // km/h (average urban speed in Indo)
+  driving: 40,  // km/h (average urban speed in Indo)
+  transit: 15   // km/h door to door, including walking and waiting
+};
+
+// Half-width of the corridor drawn around reached road segments
+export const NETWORK_BUFFER_METERS: Record<TransportMode, number> = {
+  [TransportMode.WALKING]: 50,
+  [TransportMode.CYCLING]: 60,
+  [TransportMode.DRIVING]: 80,
+  [TransportMode.TRANSIT]: 50
 };
 
 export const TIME_INTERVALS = [1, 5, 10, 15, 30, 45];
+
+// Graduated ramp for multi-band isochrones, innermost band first
+export const BAND_COLOR_RAMP = ['#22c55e', '#a3e635', '#facc15', '#fb923c', '#ef4444', '#be123c'];
+
+// Travel-time surfaces: cells of at least SURFACE_CELL_METERS, coarsened to stay under
+// SURFACE_MAX_CELLS. Off the network a cell is walked to from nodes within reach.
+export const SURFACE_CELL_METERS = 50;
+export const SURFACE_MAX_CELLS = 250000;
+export const SURFACE_ACCESS_METERS = 250;
+
+// Connected road fragments smaller than this (e.g. gated compounds, clipped stubs) are
+// dropped unless they are the whole network; origins further than the warning distance
+// from any road are flagged
+export const MIN_COMPONENT_NODES = 25;
+export const ORIGIN_SNAP_WARNING_METERS = 150;
+
+// Hill-aware walking and cycling: slopes between DEM-sampled nodes are clamped to
+// MAX_EDGE_SLOPE. Cyclists slow by 1 / (1 + CYCLING_UPHILL_PENALTY x grade) going up and
+// speed up by CYCLING_DOWNHILL_GAIN x grade going down, to at most CYCLING_MAX_DOWNHILL_FACTOR.
+export const MAX_EDGE_SLOPE = 0.4;
+export const CYCLING_UPHILL_PENALTY = 16;
+export const CYCLING_DOWNHILL_GAIN = 8;
+export const CYCLING_MAX_DOWNHILL_FACTOR = 1.6;
+
+// Ferry crossings, unless a speed profile sets its own 'ferry' speed
+export const FERRY_SPEED_KMH = 20;
+
+// Network fetching starts with what the mode's average speed covers and grows the area
+// up to MAX_NETWORK_EXPANSIONS times while the search runs off its edge. Overpass queries
+// cover at most OVERPASS_QUERY_BLOCK_TILES cache tiles on a side; busy or timed-out servers
+// are retried OVERPASS_MAX_ATTEMPTS times, backing off from OVERPASS_RETRY_DELAY_MS.
+export const MAX_NETWORK_EXPANSIONS = 5;
+export const OVERPASS_QUERY_BLOCK_TILES = 2;
+export const OVERPASS_MAX_ATTEMPTS = 3;
+export const OVERPASS_RETRY_DELAY_MS = 2000;
+
+// Indonesia default speed profiles (km/h per OSM highway class)
+const WALKING_SPEED_PROFILE: SpeedProfile = {
+  name: 'Indonesia Default',
+  mode: TransportMode.WALKING,
+  highwaySpeeds: {
+    trunk: 4, trunk_link: 4, primary: 4.5, primary_link: 4.5, secondary: 4.5, secondary_link: 4.5,
+    tertiary: 5, tertiary_link: 5, unclassified: 5, residential: 5, living_street: 5, service: 5,
+    pedestrian: 5, footway: 5, path: 4.5, track: 4, steps: 2, cycleway: 5
+  },
+  defaultSpeed: 4.5,
+  surfaceFactors: { unpaved: 0.9, gravel: 0.9, dirt: 0.85, ground: 0.85, mud: 0.6, sand: 0.7 },
+  maxspeedFactor: 0,
+  singleLaneFactor: 1
+};
+
+// Typical Jakarta traffic as hourly multipliers of free-flow speed, midnight first:
+// morning and evening commuter peaks on weekdays, a flatter afternoon peak at weekends
+const ARTERIAL_WEEKDAY = [1, 1, 1, 1, 0.95, 0.8, 0.6, 0.45, 0.45, 0.6, 0.7, 0.7, 0.7, 0.7, 0.65, 0.6, 0.5, 0.45, 0.45, 0.55, 0.7, 0.8, 0.9, 1];
+const COLLECTOR_WEEKDAY = [1, 1, 1, 1, 1, 0.85, 0.7, 0.55, 0.55, 0.7, 0.75, 0.75, 0.75, 0.75, 0.75, 0.7, 0.6, 0.55, 0.55, 0.65, 0.75, 0.85, 0.95, 1];
+const LOCAL_WEEKDAY = [1, 1, 1, 1, 1, 0.9, 0.8, 0.7, 0.7, 0.8, 0.85, 0.85, 0.85, 0.85, 0.85, 0.8, 0.75, 0.7, 0.7, 0.8, 0.85, 0.9, 1, 1];
+const ARTERIAL_WEEKEND = [1, 1, 1, 1, 1, 1, 0.95, 0.9, 0.8, 0.75, 0.7, 0.65, 0.65, 0.65, 0.65, 0.65, 0.6, 0.6, 0.6, 0.65, 0.7, 0.8, 0.9, 1];
+const LOCAL_WEEKEND = [1, 1, 1, 1, 1, 1, 1, 0.95, 0.9, 0.85, 0.8, 0.8, 0.8, 0.8, 0.8, 0.8, 0.75, 0.75, 0.75, 0.8, 0.85, 0.9, 1, 1];
+
+export const DEFAULT_CONGESTION_PROFILE: CongestionProfile = {
+  weekday: {
+    motorway: ARTERIAL_WEEKDAY, trunk: ARTERIAL_WEEKDAY, primary: ARTERIAL_WEEKDAY,
+    secondary: COLLECTOR_WEEKDAY, tertiary: COLLECTOR_WEEKDAY,
+    '*': LOCAL_WEEKDAY
+  },
+  weekend: {
+    motorway: ARTERIAL_WEEKEND, trunk: ARTERIAL_WEEKEND, primary: ARTERIAL_WEEKEND,
+    secondary: ARTERIAL_WEEKEND, tertiary: LOCAL_WEEKEND,
+    '*': LOCAL_WEEKEND
+  }
+};
+
+export const DEFAULT_SPEED_PROFILES: Record<TransportMode, SpeedProfile> = {
+  [TransportMode.WALKING]: WALKING_SPEED_PROFILE,
+  [TransportMode.CYCLING]: {
+    name: 'Indonesia Default',
+    mode: TransportMode.CYCLING,
+    highwaySpeeds: {
+      trunk: 16, trunk_link: 14, primary: 16, primary_link: 14, secondary: 16, secondary_link: 14,
+      tertiary: 15, tertiary_link: 14, unclassified: 14, residential: 14, living_street: 10, service: 12,
+      cycleway: 18, path: 10, track: 8, footway: 6, pedestrian: 6, steps: 2
+    },
+    defaultSpeed: 12,
+    surfaceFactors: { unpaved: 0.7, gravel: 0.7, compacted: 0.85, dirt: 0.6, ground: 0.6, mud: 0.4, sand: 0.4, sett: 0.8, cobblestone: 0.7 },
+    maxspeedFactor: 0,
+    singleLaneFactor: 1
+  },
+  [TransportMode.DRIVING]: {
+    name: 'Indonesia Default',
+    mode: TransportMode.DRIVING,
+    highwaySpeeds: {
+      motorway: 80, motorway_link: 45, trunk: 50, trunk_link: 35, primary: 40, primary_link: 30,
+      secondary: 35, secondary_link: 25, tertiary: 30, tertiary_link: 22, unclassified: 22,
+      residential: 20, living_street: 10, service: 12, track: 10
+    },
+    defaultSpeed: 15,
+    surfaceFactors: { unpaved: 0.6, gravel: 0.6, compacted: 0.75, dirt: 0.5, ground: 0.5, mud: 0.3, sand: 0.3 },
+    maxspeedFactor: 0.75, // Posted limits are rarely reached in urban traffic
+    singleLaneFactor: 0.85,
+    congestion: DEFAULT_CONGESTION_PROFILE
+  },
+  // Transit access and egress legs are walked
+  [TransportMode.TRANSIT]: { ...WALKING_SPEED_PROFILE, mode: TransportMode.TRANSIT }
+};
+
+// Transit search: stops further than this from the walking network are unreachable, and
+// stops closer than the transfer distance are linked by straight-line walking transfers
+export const TRANSIT_STOP_SNAP_METERS = 300;
+export const TRANSIT_TRANSFER_METERS = 250;
+export const TRANSIT_WALK_DETOUR_FACTOR = 1.3;
+export const DEFAULT_MAX_TRANSFERS = 2;
+
+// Gap analysis without a district boundary studies the sites' hull grown by this margin
+export const GAP_STUDY_AREA_MARGIN_METERS = 2000;
+
+// Local HTTP API limits, in line with public isochrone services: locations and ranges per
+// request, and how far an origin may be from the nearest road to be routable
+export const API_DEFAULT_PORT = 8080;
+export const API_MAX_LOCATIONS = 5;
+export const API_MAX_RANGES = 10;
+export const API_MAX_RANGE_SECONDS = 3600;
+export const API_MAX_SNAP_METERS = 350;
+export const API_MAX_BODY_BYTES = 1_000_000;
+
+// Road-network cache tiles are CACHE_TILE_SIZE degrees square (~5.5 km)
+export const CACHE_TILE_SIZE = 0.05;
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+  ttlHours: 24 * 7,
+  maxSizeMB: 200
+};
+
+// OSM tag values counted per amenity category in coverage statistics
+export const AMENITY_CATEGORIES: Record<AmenityCategory, { label: string; tags: Record<string, string[]> }> = {
+  schools: { label: 'Schools', tags: { amenity: ['school', 'kindergarten', 'college', 'university'] } },
+  hospitals: { label: 'Health', tags: { amenity: ['hospital', 'clinic', 'doctors'], healthcare: ['hospital', 'clinic', 'centre'] } },
+  markets: { label: 'Markets', tags: { amenity: ['marketplace'], shop: ['supermarket', 'mall'] } },
+  transit_stops: {
+    label: 'Transit',
+    tags: { highway: ['bus_stop'], public_transport: ['platform', 'station'], railway: ['station', 'halt', 'tram_stop'] }
+  }
+};
+
+// Property names recognised as population counts in uploaded layers
+export const POPULATION_FIELDS = ['population', 'pop', 'penduduk', 'jumlah_penduduk', 'jml_pddk', 'value'];
+
+export const BASEMAPS = [
+  {
+    name: 'CartoDB Dark',
+    url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>'
+  },
+  {
+    name: 'OpenStreetMap',
+    url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+  },
+  {
+    name: 'Esri World Imagery',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri &mdash; Source: Esri, i-cubed, USDA, USGS, AEX, GeoEye, Getmapping, Aerogrid, IGN, IGP, UPR-EBP, and the GIS User Community'
+  }
+];
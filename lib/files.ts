@@ -0,0 +1,18 @@
+// Node-only file helpers shared by the CLI and the HTTP API; kept out of the library entry
+// so it stays usable outside Node
+import { readFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { RoadExtract } from '../types';
+import { isGeoJsonRoadNetwork, parseGeoJsonRoads, parseRoadExtract } from '../services/osmFileParser';
+
+// Road network from an OSM XML / PBF extract or a GeoJSON file of road lines
+export const readRoadExtract = async (path: string): Promise<RoadExtract> => {
+  const name = basename(path);
+  if (/\.(geo)?json$/i.test(path)) {
+    const geojson = JSON.parse(await readFile(path, 'utf8'));
+    if (!isGeoJsonRoadNetwork(geojson)) throw new Error(`${name} holds no road lines`);
+    return { name, elements: parseGeoJsonRoads(geojson) };
+  }
+  const data = await readFile(path);
+  return parseRoadExtract(name, data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+};
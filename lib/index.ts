@@ -0,0 +1,111 @@
+// Headless entry point: the fetch -> graph -> shortest path -> polygon pipeline without the
+// React UI or a Web Worker, for Node scripts and other unattended callers. Everything a
+// caller needs is exported from here; the services behind it may change.
+import {
+  AnalysisLayers,
+  IsochroneOutput,
+  IsochroneParams,
+  NetworkSource,
+  RoadExtract,
+  SpeedProfile,
+  TransportMode,
+  TravelDirection
+} from '../types';
+import { DEFAULT_SPEED_PROFILES } from '../constants';
+import { runIsochronePipeline, ProgressCallback } from '../services/isochroneService';
+import { createLocalSource, createOverpassSource } from '../services/networkSource';
+import {
+  EmptyIsochroneError,
+  InvalidParamsError,
+  IsochroneError,
+  NetworkUnavailableError,
+  UnroutableOriginError
+} from '../services/errors';
+
+export interface ComputeIsochroneOptions {
+  network?: RoadExtract | NetworkSource; // An offline extract or a custom source; Overpass when omitted
+  profile?: SpeedProfile; // Defaults to the mode's default profile
+  layers?: Partial<AnalysisLayers>; // GTFS feed (required for transit), observed speeds, elevation
+  maxSnapMeters?: number; // Origins further from the nearest road are unroutable; no limit when omitted
+  onProgress?: ProgressCallback;
+}
+
+// Reject params the pipeline would fail on, or silently misread
+export const validateParams = (params: IsochroneParams, layers: Partial<AnalysisLayers> = {}): void => {
+  if (!Number.isFinite(params.lat) || Math.abs(params.lat) > 90) throw new InvalidParamsError(`Invalid latitude ${params.lat}`);
+  if (!Number.isFinite(params.lng) || Math.abs(params.lng) > 180) throw new InvalidParamsError(`Invalid longitude ${params.lng}`);
+  if (!Object.values(TransportMode).includes(params.mode)) throw new InvalidParamsError(`Unknown mode "${params.mode}"`);
+  const cutoffs = params.bands && params.bands.length > 0 ? params.bands : [params.minutes];
+  if (cutoffs.some(m => !Number.isFinite(m) || m <= 0)) throw new InvalidParamsError('Time limits must be positive minutes');
+  if (params.mode === TransportMode.TRANSIT) {
+    if (!layers.transit) throw new InvalidParamsError('Transit mode needs a GTFS feed');
+    if (params.direction === TravelDirection.INBOUND) throw new InvalidParamsError('Inbound analysis is not supported for transit');
+  }
+};
+
+// Failures while loading the network that are not already typed (e.g. an origin outside a
+// local extract) are reported as the network being unavailable
+const guardSource = (source: NetworkSource): NetworkSource => ({
+  label: source.label,
+  loadGraph: async (request) => {
+    try {
+      return await source.loadGraph(request);
+    } catch (error) {
+      if (error instanceof IsochroneError) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new NetworkUnavailableError(`Could not load the road network from ${source.label}: ${message}`, { cause: error });
+    }
+  }
+});
+
+// One isochrone, or one FeatureCollection of bands when params.bands is set. Failures are
+// thrown as IsochroneError subclasses; the returned polygon is never null.
+export const computeIsochrone = async (
+  params: IsochroneParams,
+  options: ComputeIsochroneOptions = {}
+): Promise<IsochroneOutput> => {
+  const layers: AnalysisLayers = { transit: null, observedSpeeds: null, elevation: null, ...options.layers };
+  validateParams(params, layers);
+
+  const network = options.network;
+  const source = !network ? createOverpassSource()
+    : 'elements' in network ? createLocalSource(network)
+    : network;
+  const output = await runIsochronePipeline(
+    params,
+    options.profile ?? DEFAULT_SPEED_PROFILES[params.mode],
+    options.onProgress,
+    guardSource(source),
+    layers
+  );
+
+  if (output.originSnapMeters === undefined) throw new UnroutableOriginError(`No roads near ${params.lat}, ${params.lng}`);
+  if (options.maxSnapMeters !== undefined && output.originSnapMeters > options.maxSnapMeters) {
+    throw new UnroutableOriginError(`No roads within ${options.maxSnapMeters} m of ${params.lat}, ${params.lng}`);
+  }
+  if (!output.polygon) throw new EmptyIsochroneError(`Too little of the network is reachable from ${params.lat}, ${params.lng} to draw an isochrone`);
+  return output;
+};
+
+export * from '../services/errors';
+export { TransportMode, PolygonMethod, TravelDirection } from '../types';
+export type {
+  AnalysisLayers,
+  AvoidanceOptions,
+  BatchOrigin,
+  BBox,
+  IsochroneOutput,
+  IsochroneParams,
+  NetworkSource,
+  ReachedNode,
+  RoadExtract,
+  SpeedProfile
+} from '../types';
+export type { ProgressCallback } from '../services/isochroneService';
+export { createLocalSource, createOverpassSource, createPreloadedSource } from '../services/networkSource';
+export { parseRoadExtract, parseGeoJsonRoads, isGeoJsonRoadNetwork } from '../services/osmFileParser';
+export { parseOriginsFromCsv, parseOriginsFromGeoJson, tagWithOrigin } from '../services/batchService';
+export { getDefaultProfiles } from '../services/speedProfileService';
+export { parseGtfsZip } from '../services/gtfsParser';
+export { parseObservedSpeedsCsv } from '../services/trafficService';
+export { parseElevationFile } from '../services/elevationService';
@@ -0,0 +1,134 @@
+// Optional local HTTP API over an offline road network, for tools that call isochrone
+// services in the OpenRouteService / Valhalla style. The extract is parsed and its graphs
+// built once at startup, so requests never touch Overpass.
+// Build with `npm run build:node`, then run `npm run serve:api -- --network extract.osm.pbf`.
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { parseArgs } from 'node:util';
+import { API_DEFAULT_PORT, API_MAX_BODY_BYTES, DEFAULT_SPEED_PROFILES } from '../constants';
+import { BBox, GraphData, TransportMode } from '../types';
+import { buildGraphFromElements } from '../services/graphBuilder';
+import { createPreloadedSource } from '../services/networkSource';
+import { readRoadExtract } from '../lib/files';
+import { handleIsochroneRequest, PreloadedNetwork } from './isochroneApi';
+
+const MODES = [TransportMode.WALKING, TransportMode.CYCLING, TransportMode.DRIVING];
+const ISOCHRONE_PATH = /^(?:\/v2)?\/isochrones(?:\/([\w-]+))?\/?$/;
+
+const USAGE = `Usage: serve --network <file> [--port ${API_DEFAULT_PORT}] [--host 127.0.0.1]
+
+  --network <file>  Road network: OSM XML (.osm), PBF (.pbf) or GeoJSON lines
+  --port <n>        Port to listen on
+  --host <host>     Interface to bind; only this machine by default`;
+
+const getBounds = (graphs: GraphData[]): BBox => {
+  const bounds = { minLat: Infinity, maxLat: -Infinity, minLng: Infinity, maxLng: -Infinity };
+  graphs.forEach(graph => graph.nodes.forEach(({ lat, lon }) => {
+    bounds.minLat = Math.min(bounds.minLat, lat);
+    bounds.maxLat = Math.max(bounds.maxLat, lat);
+    bounds.minLng = Math.min(bounds.minLng, lon);
+    bounds.maxLng = Math.max(bounds.maxLng, lon);
+  }));
+  return bounds;
+};
+
+// Parse the extract and build one graph per mode over all of it
+const preloadNetwork = async (path: string): Promise<PreloadedNetwork> => {
+  const { name, elements } = await readRoadExtract(path);
+
+  const graphs: Partial<Record<TransportMode, GraphData>> = {};
+  MODES.forEach(mode => {
+    graphs[mode] = buildGraphFromElements(elements, mode, DEFAULT_SPEED_PROFILES[mode]);
+    console.log(`${name}: ${graphs[mode]!.nodes.size} ${mode} nodes`);
+  });
+  // Each graph is complete for the whole extract, so searches never ask for more
+  const bounds = getBounds(Object.values(graphs));
+  MODES.forEach(mode => { graphs[mode] = { ...graphs[mode]!, bounds }; });
+  return { name, bounds, source: createPreloadedSource(name, graphs) };
+};
+
+class BodyTooLargeError extends Error {}
+
+// The parsed JSON body, or null when it is not JSON
+const readJsonBody = (req: IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      if (size > API_MAX_BODY_BYTES) return;
+      size += chunk.length;
+      if (size > API_MAX_BODY_BYTES) {
+        // Drain the rest without keeping it, so the connection stays open for the 413
+        reject(new BodyTooLargeError(`Request body is larger than ${API_MAX_BODY_BYTES} bytes`));
+        chunks.length = 0;
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > API_MAX_BODY_BYTES) return;
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch (e) {
+        resolve(null);
+      }
+    });
+    req.on('error', reject);
+  });
+
+const send = (res: ServerResponse, status: number, body?: any) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      network: { type: 'string' },
+      port: { type: 'string' },
+      host: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  if (values.help || !values.network) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const network = await preloadNetwork(values.network);
+  const server = createServer(async (req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const match = path.match(ISOCHRONE_PATH);
+    try {
+      if (req.method === 'OPTIONS') return send(res, 204);
+      if (req.method === 'GET' && path === '/status') {
+        return send(res, 200, { network: network.name, bounds: network.bounds, modes: MODES });
+      }
+      if (req.method === 'POST' && match) {
+        const { status, body } = await handleIsochroneRequest(await readJsonBody(req), match[1], network);
+        return send(res, status, body);
+      }
+      send(res, 404, { error: { code: 'not_found', message: `No route for ${req.method} ${path}` } });
+    } catch (error) {
+      // Only reading the body throws, e.g. when it is too large
+      if (error instanceof BodyTooLargeError) {
+        return send(res, 413, { error: { code: 'payload_too_large', message: error.message } });
+      }
+      send(res, 400, { error: { code: 'invalid_params', message: error instanceof Error ? error.message : String(error) } });
+    }
+  });
+
+  const host = values.host ?? '127.0.0.1';
+  const port = Number(values.port ?? API_DEFAULT_PORT);
+  server.listen(port, host, () => console.log(`Isochrone API on http://${host}:${port}/isochrones (${network.name})`));
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
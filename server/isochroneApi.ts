@@ -0,0 +1,192 @@
+// Request and response mapping for POST /isochrones, accepting the request shapes of
+// OpenRouteService ({ profile, locations: [[lng, lat]], range: [seconds], interval,
+// location_type }) and Valhalla ({ costing, locations: [{ lat, lon }], contours: [{ time }] }).
+import * as turf from '@turf/turf';
+import {
+  API_MAX_LOCATIONS,
+  API_MAX_RANGES,
+  API_MAX_RANGE_SECONDS,
+  API_MAX_SNAP_METERS
+} from '../constants';
+import {
+  BBox,
+  computeIsochrone,
+  InvalidParamsError,
+  IsochroneError,
+  IsochroneParams,
+  NetworkSource,
+  OutOfBoundsError,
+  PolygonMethod,
+  TransportMode,
+  TravelDirection
+} from '../lib';
+
+// Profile and costing names of both services, plus this app's own mode names
+const PROFILES: Record<string, TransportMode> = {
+  'foot-walking': TransportMode.WALKING,
+  'foot-hiking': TransportMode.WALKING,
+  pedestrian: TransportMode.WALKING,
+  walking: TransportMode.WALKING,
+  'cycling-regular': TransportMode.CYCLING,
+  bicycle: TransportMode.CYCLING,
+  cycling: TransportMode.CYCLING,
+  'driving-car': TransportMode.DRIVING,
+  auto: TransportMode.DRIVING,
+  driving: TransportMode.DRIVING
+};
+
+const ERROR_STATUS: Record<IsochroneError['code'], number> = {
+  invalid_params: 400,
+  out_of_bounds: 404,
+  unroutable_origin: 404,
+  empty_isochrone: 404,
+  network_unavailable: 503
+};
+
+export interface PreloadedNetwork {
+  name: string;
+  bounds: BBox;
+  source: NetworkSource;
+}
+
+export interface IsochroneRequest {
+  mode: TransportMode;
+  locations: { lat: number; lng: number }[];
+  rangesSeconds: number[]; // Ascending
+  direction: TravelDirection;
+}
+
+export interface ApiResponse {
+  status: number;
+  body: any;
+}
+
+const readLocation = (location: any): { lat: number; lng: number } => {
+  const [lng, lat] = Array.isArray(location) ? location : [location?.lon ?? location?.lng, location?.lat];
+  if (typeof lat !== 'number' || typeof lng !== 'number') {
+    throw new InvalidParamsError('Locations must be [lng, lat] pairs or { lat, lon } objects');
+  }
+  return { lat, lng };
+};
+
+// ORS ranges are seconds, optionally split into steps of `interval`; Valhalla contours are minutes
+const readRanges = (body: any): number[] => {
+  let ranges: number[];
+  if (Array.isArray(body.contours)) {
+    ranges = body.contours.map((c: any) => c?.time * 60);
+  } else if (Array.isArray(body.range)) {
+    if (body.range_type && body.range_type !== 'time') throw new InvalidParamsError('Only time ranges are supported');
+    ranges = body.range;
+    if (body.interval !== undefined) {
+      if (!(body.interval > 0) || ranges.length !== 1) throw new InvalidParamsError('An interval needs a positive value and a single range');
+      // Checked before expanding, so the client does not choose how many steps get allocated
+      if (typeof ranges[0] !== 'number' || !(ranges[0] > 0) || ranges[0] > API_MAX_RANGE_SECONDS) throw new InvalidParamsError(`Ranges must be between 0 and ${API_MAX_RANGE_SECONDS} seconds`);
+      const steps = Math.ceil(ranges[0] / body.interval);
+      if (steps > API_MAX_RANGES) throw new InvalidParamsError(`An interval may split the range into at most ${API_MAX_RANGES} steps`);
+      ranges = Array.from({ length: steps }, (_, i) => Math.min(ranges[0], (i + 1) * body.interval));
+    }
+  } else {
+    throw new InvalidParamsError('Give the ranges as "range" (seconds) or "contours" (minutes)');
+  }
+
+  if (ranges.length === 0 || ranges.length > API_MAX_RANGES) throw new InvalidParamsError(`Give between 1 and ${API_MAX_RANGES} ranges`);
+  if (ranges.some(r => typeof r !== 'number' || !(r > 0) || r > API_MAX_RANGE_SECONDS)) {
+    throw new InvalidParamsError(`Ranges must be between 0 and ${API_MAX_RANGE_SECONDS} seconds`);
+  }
+  return [...new Set(ranges)].sort((a, b) => a - b);
+};
+
+// The profile comes from the ORS-style path (/isochrones/foot-walking) or the body
+export const parseIsochroneRequest = (body: any, pathProfile?: string): IsochroneRequest => {
+  if (!body || typeof body !== 'object') throw new InvalidParamsError('The request body must be a JSON object');
+  const profile = pathProfile ?? body.profile ?? body.costing;
+  const mode = Object.hasOwn(PROFILES, profile) ? PROFILES[profile] : undefined;
+  if (!mode) throw new InvalidParamsError(`Unknown profile "${profile}"; use one of ${Object.keys(PROFILES).join(', ')}`);
+
+  if (!Array.isArray(body.locations) || body.locations.length === 0 || body.locations.length > API_MAX_LOCATIONS) {
+    throw new InvalidParamsError(`Give between 1 and ${API_MAX_LOCATIONS} locations`);
+  }
+  return {
+    mode,
+    locations: body.locations.map(readLocation),
+    rangesSeconds: readRanges(body),
+    direction: body.location_type === 'destination' || body.reverse === true ? TravelDirection.INBOUND : TravelDirection.OUTBOUND
+  };
+};
+
+// Both services return each range as the whole area reachable within it, where the
+// pipeline's bands are rings; every band is merged with the bands inside it. Bands are
+// matched to ranges by their own cutoff, since the pipeline drops bands that draw nothing:
+// such a range keeps the area of the ranges inside it, or null when there is none.
+const toCumulativeAreas = (polygon: any, minutes: number[]): (any | null)[] => {
+  if (polygon.type !== 'FeatureCollection') return [polygon];
+  let area: any = null;
+  return minutes.map(cutoff => {
+    const ring = polygon.features.find((band: any) => band.properties?.toMinutes === cutoff);
+    if (ring) area = area ? turf.union(turf.featureCollection([area, ring])) ?? ring : ring;
+    return area;
+  });
+};
+
+const isInside = (bounds: BBox, { lat, lng }: { lat: number; lng: number }) =>
+  lat >= bounds.minLat && lat <= bounds.maxLat && lng >= bounds.minLng && lng <= bounds.maxLng;
+
+// One feature per range, innermost range first
+const computeLocation = async (
+  request: IsochroneRequest,
+  index: number,
+  network: PreloadedNetwork
+): Promise<any[]> => {
+  const location = request.locations[index];
+  if (!isInside(network.bounds, location)) {
+    throw new OutOfBoundsError(`Location ${location.lat}, ${location.lng} is outside the ${network.name} network`);
+  }
+  const minutes = request.rangesSeconds.map(s => s / 60);
+  const params: IsochroneParams = {
+    ...location,
+    mode: request.mode,
+    minutes: minutes[minutes.length - 1],
+    bands: minutes.length > 1 ? minutes : undefined,
+    direction: request.direction,
+    polygonMethod: PolygonMethod.NETWORK_BUFFER
+  };
+  const { polygon } = await computeIsochrone(params, { network: network.source, maxSnapMeters: API_MAX_SNAP_METERS });
+  return toCumulativeAreas(polygon, minutes).map((area, i) => turf.feature(area?.geometry ?? null, {
+    group_index: index,
+    value: request.rangesSeconds[i],
+    contour: minutes[i],
+    center: [location.lng, location.lat]
+  }));
+};
+
+// Typed failures become structured JSON errors, naming the location that failed; anything
+// else is a server error
+const toErrorResponse = (error: unknown, locationIndex?: number): ApiResponse => {
+  if (error instanceof IsochroneError) {
+    return {
+      status: ERROR_STATUS[error.code],
+      body: { error: { code: error.code, message: error.message, ...(locationIndex !== undefined && { location_index: locationIndex }) } }
+    };
+  }
+  console.error(error);
+  return { status: 500, body: { error: { code: 'internal_error', message: 'The isochrone could not be computed' } } };
+};
+
+// A FeatureCollection for every location; the first location that fails fails the request
+export const handleIsochroneRequest = async (
+  body: any,
+  pathProfile: string | undefined,
+  network: PreloadedNetwork
+): Promise<ApiResponse> => {
+  let locationIndex: number | undefined;
+  try {
+    const request = parseIsochroneRequest(body, pathProfile);
+    const features: any[] = [];
+    for (locationIndex = 0; locationIndex < request.locations.length; locationIndex++) {
+      features.push(...await computeLocation(request, locationIndex, network));
+    }
+    return { status: 200, body: turf.featureCollection(features) };
+  } catch (error) {
+    return toErrorResponse(error, locationIndex);
+  }
+};
@@ -0,0 +1,52 @@
+import * as turf from '@turf/turf';
+import { AvoidanceOptions, Edge, GraphData } from '../types';
+
+// Polygons of an uploaded GeoJSON as avoidance areas; properties are dropped to keep params small
+export const parseAvoidAreas = (geojson: any): any => {
+  const features: any[] = geojson.type === 'FeatureCollection' ? geojson.features
+    : geojson.type === 'Feature' ? [geojson]
+    : [{ type: 'Feature', geometry: geojson, properties: {} }];
+  const polygons = features.filter(f => f?.geometry?.type === 'Polygon' || f?.geometry?.type === 'MultiPolygon');
+  if (polygons.length === 0) throw new Error('The file contains no polygons');
+  return turf.featureCollection(polygons.map(f => turf.feature(f.geometry)));
+};
+
+// Short labels of the constraints in effect, for result cards and export attributes
+export const describeAvoidance = (avoid?: AvoidanceOptions): string[] => {
+  if (!avoid) return [];
+  const labels: string[] = [];
+  if (avoid.tolls) labels.push('tolls');
+  if (avoid.ferries) labels.push('ferries');
+  if (avoid.unpaved) labels.push('unpaved');
+  if (avoid.barriers) labels.push('barriers');
+  if (avoid.areas?.features?.length) labels.push(avoid.areasName ?? 'areas');
+  return labels;
+};
+
+// Drop every edge the options rule out: tolled, ferry or unpaved ways, edges into a closed
+// barrier and segments touching an avoided area. Returns a new graph without the segment
+// index, so origins are only snapped onto segments that remain.
+export const applyAvoidance = (graph: GraphData, avoid?: AvoidanceOptions): GraphData => {
+  if (!avoid || describeAvoidance(avoid).length === 0) return graph;
+
+  const areas = (avoid.areas?.features ?? []).map((feature: any) => ({ feature, bbox: turf.bbox(feature) }));
+  const touchesArea = (edge: Edge): boolean => {
+    const a = graph.nodes.get(edge.source)!;
+    const b = graph.nodes.get(edge.target)!;
+    return areas.some(({ feature, bbox: [west, south, east, north] }: { feature: any; bbox: number[] }) =>
+      Math.max(a.lon, b.lon) >= west && Math.min(a.lon, b.lon) <= east &&
+      Math.max(a.lat, b.lat) >= south && Math.min(a.lat, b.lat) <= north &&
+      turf.booleanIntersects(turf.lineString([[a.lon, a.lat], [b.lon, b.lat]]), feature));
+  };
+
+  const keep = (edge: Edge): boolean =>
+    !(avoid.tolls && edge.toll) &&
+    !(avoid.ferries && edge.highway === 'ferry') &&
+    !(avoid.unpaved && edge.unpaved) &&
+    !(avoid.barriers && graph.nodes.get(edge.target)?.barrier) &&
+    !(areas.length > 0 && touchesArea(edge));
+
+  const adjacency = new Map<string, Edge[]>();
+  graph.adjacency.forEach((edges, id) => adjacency.set(id, edges.filter(keep)));
+  return { nodes: graph.nodes, adjacency, spatialIndex: graph.spatialIndex };
+};
@@ -0,0 +1,159 @@
+import { AnalysisLayers, BatchOrigin, BatchStatus, IsochroneParams, NetworkSourceConfig, SpeedProfile, TravelDirection } from '../types';
+import { runIsochroneInWorker } from './isochroneWorkerClient';
+
+const LAT_COLUMNS = ['lat', 'latitude', 'y', 'lintang'];
+const LNG_COLUMNS = ['lng', 'lon', 'long', 'longitude', 'x', 'bujur'];
+const ID_COLUMNS = ['id', 'fid', 'kode', 'code', 'name', 'nama'];
+
+// Split one CSV line, honouring double-quoted fields
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (ch === delimiter && !inQuotes) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current);
+  return fields.map(f => f.trim());
+};
+
+// Parse a CSV (comma or semicolon separated) into header-keyed rows
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
+  if (lines.length < 2) return [];
+  const delimiter = lines[0].split(';').length > lines[0].split(',').length ? ';' : ',';
+  const headers = splitCsvLine(lines[0], delimiter);
+  return lines.slice(1).map(line => {
+    const values = splitCsvLine(line, delimiter);
+    const row: Record<string, string> = {};
+    headers.forEach((h, i) => { row[h] = values[i] ?? ''; });
+    return row;
+  });
+};
+
+const findColumn = (headers: string[], candidates: string[]) =>
+  headers.find(h => candidates.includes(h.toLowerCase()));
+
+// Origin ids key batch statuses and list rows, so an id seen before (e.g. two sites sharing
+// a name) gets its row number appended
+const createIdAssigner = () => {
+  const used = new Set<string>();
+  return (id: string, row: number): string => {
+    let unique = id;
+    for (let n = 1; used.has(unique); n++) unique = n === 1 ? `${id}_${row}` : `${id}_${row}_${n}`;
+    used.add(unique);
+    return unique;
+  };
+};
+
+export const parseOriginsFromCsv = (text: string): BatchOrigin[] => {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return [];
+  const headers = Object.keys(rows[0]);
+  const latCol = findColumn(headers, LAT_COLUMNS);
+  const lngCol = findColumn(headers, LNG_COLUMNS);
+  if (!latCol || !lngCol) throw new Error('CSV needs latitude and longitude columns (e.g. "lat" and "lng")');
+  const idCol = findColumn(headers, ID_COLUMNS);
+  const assignId = createIdAssigner();
+
+  return rows
+    .map((row, i) => ({
+      id: assignId(idCol && row[idCol] ? row[idCol] : `${i + 1}`, i + 1),
+      lat: parseFloat(row[latCol]),
+      lng: parseFloat(row[lngCol]),
+      properties: row
+    }))
+    .filter(o => Number.isFinite(o.lat) && Number.isFinite(o.lng));
+};
+
+export const parseOriginsFromGeoJson = (geojson: any): BatchOrigin[] => {
+  const features = geojson.type === 'FeatureCollection' ? geojson.features : [geojson];
+  const assignId = createIdAssigner();
+  return features
+    .filter((f: any) => f?.geometry?.type === 'Point')
+    .map((f: any, i: number) => {
+      const properties = f.properties || {};
+      const idKey = Object.keys(properties).find(k => ID_COLUMNS.includes(k.toLowerCase()));
+      return {
+        id: assignId(String(f.id ?? (idKey ? properties[idKey] : i + 1)), i + 1),
+        lat: f.geometry.coordinates[1],
+        lng: f.geometry.coordinates[0],
+        properties
+      };
+    });
+};
+
+// Stamp origin id, origin attributes and analysis params onto every output feature
+export const tagWithOrigin = (polygon: any, origin: BatchOrigin, params: IsochroneParams): any[] => {
+  const features = polygon.type === 'FeatureCollection' ? polygon.features : [polygon];
+  return features.map((f: any) => ({
+    ...f,
+    properties: {
+      ...origin.properties,
+      ...f.properties,
+      origin_id: origin.id,
+      origin_lat: origin.lat,
+      origin_lng: origin.lng,
+      mode: params.mode,
+      minutes: params.minutes,
+      direction: params.direction ?? TravelDirection.OUTBOUND
+    }
+  }));
+};
+
+// Compute one isochrone per origin, sequentially, reporting each origin's status.
+// Resolves with a FeatureCollection of every successful origin.
+export const runBatch = async (
+  origins: BatchOrigin[],
+  params: IsochroneParams,
+  profile: SpeedProfile,
+  source: NetworkSourceConfig,
+  layers: AnalysisLayers,
+  onStatus: (originId: string, status: BatchStatus) => void,
+  signal?: AbortSignal
+): Promise<any> => {
+  const features: any[] = [];
+
+  for (const origin of origins) {
+    if (signal?.aborted) break;
+    onStatus(origin.id, { state: 'running', fraction: 0 });
+    const originParams = { ...params, lat: origin.lat, lng: origin.lng };
+    try {
+      const { polygon } = await runIsochroneInWorker(
+        originParams,
+        profile,
+        source,
+        layers,
+        (_, fraction) => onStatus(origin.id, { state: 'running', fraction }),
+        signal
+      );
+      if (polygon) {
+        features.push(...tagWithOrigin(polygon, origin, originParams));
+        onStatus(origin.id, { state: 'done', fraction: 1 });
+      } else {
+        onStatus(origin.id, { state: 'failed', fraction: 1, message: 'No reachable network' });
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        onStatus(origin.id, { state: 'pending', fraction: 0 });
+        break;
+      }
+      onStatus(origin.id, { state: 'failed', fraction: 1, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { type: 'FeatureCollection', features };
+};
@@ -0,0 +1,270 @@
+import { BBox, CacheSettings, CacheStats, GraphData, OsmElement, SpeedProfile, TransportMode } from '../types';
+import { CACHE_TILE_SIZE, DEFAULT_CACHE_SETTINGS } from '../constants';
+
+// Persistent road-network cache in IndexedDB. Raw Overpass elements are stored per
+// fixed-size tile so overlapping requests share tiles; built graphs are stored per
+// (tile set, mode, speed profile). Everything degrades to a no-op where IndexedDB
+// is unavailable (e.g. Node).
+
+const DB_NAME = 'nusa-isochrone-cache';
+// Version 2 tiles keep node tags and ferry routes, and graphs carry avoidance flags
+const DB_VERSION = 2;
+const TILE_STORE = 'tiles';
+const GRAPH_STORE = 'graphs';
+const META_STORE = 'meta';
+
+interface CacheEntry {
+  key: string;
+  createdAt: number;
+  size: number; // Approximate bytes
+}
+
+interface TileEntry extends CacheEntry {
+  elements: OsmElement[];
+}
+
+interface GraphEntry extends CacheEntry {
+  nodes: GraphData['nodes'];
+  adjacency: GraphData['adjacency'];
+  fetchedAt?: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const isAvailable = () => typeof indexedDB !== 'undefined';
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        // Entries from older versions lack data later analyses rely on; start afresh
+        if (event.oldVersion > 0 && event.oldVersion < 2) {
+          db.deleteObjectStore(TILE_STORE);
+          db.deleteObjectStore(GRAPH_STORE);
+        }
+        if (!db.objectStoreNames.contains(TILE_STORE)) db.createObjectStore(TILE_STORE, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(GRAPH_STORE)) db.createObjectStore(GRAPH_STORE, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+// Small stable hash so speed profiles can be part of a cache key
+const hashString = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+export interface Tile {
+  x: number;
+  y: number;
+}
+
+export const getTilesForBBox = (bbox: BBox): Tile[] => {
+  const tiles: Tile[] = [];
+  for (let x = Math.floor(bbox.minLng / CACHE_TILE_SIZE); x <= Math.floor(bbox.maxLng / CACHE_TILE_SIZE); x++) {
+    for (let y = Math.floor(bbox.minLat / CACHE_TILE_SIZE); y <= Math.floor(bbox.maxLat / CACHE_TILE_SIZE); y++) {
+      tiles.push({ x, y });
+    }
+  }
+  return tiles;
+};
+
+export const getTileForPoint = (lat: number, lng: number): Tile => ({
+  x: Math.floor(lng / CACHE_TILE_SIZE),
+  y: Math.floor(lat / CACHE_TILE_SIZE)
+});
+
+// Every tile in the rectangle spanned by the given tiles
+export const getTileSpan = (tiles: Tile[]): Tile[] => {
+  const xs = tiles.map(t => t.x);
+  const ys = tiles.map(t => t.y);
+  const span: Tile[] = [];
+  for (let x = Math.min(...xs); x <= Math.max(...xs); x++) {
+    for (let y = Math.min(...ys); y <= Math.max(...ys); y++) span.push({ x, y });
+  }
+  return span;
+};
+
+export const getTileBBox = ({ x, y }: Tile): BBox => ({
+  minLng: x * CACHE_TILE_SIZE,
+  maxLng: (x + 1) * CACHE_TILE_SIZE,
+  minLat: y * CACHE_TILE_SIZE,
+  maxLat: (y + 1) * CACHE_TILE_SIZE
+});
+
+export const getTileKey = (tile: Tile, mode: TransportMode) => `${mode}:${tile.x}:${tile.y}`;
+
+// Congestion is applied per analysis on top of the cached free-flow graph, so it is not part of the key
+export const getGraphKey = (tiles: Tile[], mode: TransportMode, profile: SpeedProfile) =>
+  `${mode}:${hashString(tiles.map(t => `${t.x}:${t.y}`).join('|'))}:${hashString(JSON.stringify({ ...profile, congestion: undefined }))}`;
+
+export const getCacheSettings = async (): Promise<CacheSettings> => {
+  if (!isAvailable()) return DEFAULT_CACHE_SETTINGS;
+  try {
+    const stored = await withStore<CacheSettings | undefined>(META_STORE, 'readonly', s => s.get('settings'));
+    return { ...DEFAULT_CACHE_SETTINGS, ...stored };
+  } catch (e) {
+    return DEFAULT_CACHE_SETTINGS;
+  }
+};
+
+export const saveCacheSettings = async (settings: CacheSettings): Promise<void> => {
+  if (!isAvailable()) return;
+  await withStore(META_STORE, 'readwrite', s => s.put(settings, 'settings'));
+  await enforceCacheLimits();
+};
+
+const isFresh = (entry: CacheEntry | undefined, settings: CacheSettings): boolean =>
+  !!entry && Date.now() - entry.createdAt < settings.ttlHours * 3600 * 1000;
+
+// Cached elements and fetch time per tile key; missing or expired tiles are absent from the result
+// Elements of one tile and when they were fetched
+export interface CachedTile {
+  elements: OsmElement[];
+  fetchedAt: number;
+}
+
+export const getCachedTiles = async (keys: string[]): Promise<Map<string, CachedTile>> => {
+  const found = new Map<string, CachedTile>();
+  if (!isAvailable()) return found;
+  try {
+    const settings = await getCacheSettings();
+    for (const key of keys) {
+      const entry = await withStore<TileEntry | undefined>(TILE_STORE, 'readonly', s => s.get(key));
+      if (isFresh(entry, settings)) found.set(key, { elements: entry!.elements, fetchedAt: entry!.createdAt });
+    }
+  } catch (e) {
+    console.warn('Tile cache read failed', e);
+  }
+  return found;
+};
+
+export const putCachedTiles = async (tiles: Map<string, OsmElement[]>): Promise<void> => {
+  if (!isAvailable()) return;
+  try {
+    for (const [key, elements] of tiles) {
+      const entry: TileEntry = { key, elements, createdAt: Date.now(), size: JSON.stringify(elements).length };
+      await withStore(TILE_STORE, 'readwrite', s => s.put(entry));
+    }
+    await enforceCacheLimits();
+  } catch (e) {
+    console.warn('Tile cache write failed', e);
+  }
+};
+
+export const getCachedGraph = async (key: string): Promise<GraphData | null> => {
+  if (!isAvailable()) return null;
+  try {
+    const settings = await getCacheSettings();
+    const entry = await withStore<GraphEntry | undefined>(GRAPH_STORE, 'readonly', s => s.get(key));
+    return isFresh(entry, settings) ? { nodes: entry!.nodes, adjacency: entry!.adjacency, fetchedAt: entry!.fetchedAt } : null;
+  } catch (e) {
+    console.warn('Graph cache read failed', e);
+    return null;
+  }
+};
+
+export const putCachedGraph = async (key: string, graph: GraphData): Promise<void> => {
+  if (!isAvailable()) return;
+  let edgeCount = 0;
+  graph.adjacency.forEach(edges => { edgeCount += edges.length; });
+  // The spatial index is rebuilt on demand and not worth persisting
+  const entry: GraphEntry = {
+    key,
+    nodes: graph.nodes,
+    adjacency: graph.adjacency,
+    fetchedAt: graph.fetchedAt,
+    createdAt: Date.now(),
+    size: graph.nodes.size * 60 + edgeCount * 90
+  };
+  try {
+    await withStore(GRAPH_STORE, 'readwrite', s => s.put(entry));
+    await enforceCacheLimits();
+  } catch (e) {
+    console.warn('Graph cache write failed', e);
+  }
+};
+
+// Key, age and size of every entry in a store
+const listEntries = async (storeName: string): Promise<(CacheEntry & { store: string })[]> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const entries: (CacheEntry & { store: string })[] = [];
+    const request = db.transaction(storeName, 'readonly').objectStore(storeName).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(entries);
+        return;
+      }
+      const { key, createdAt, size } = cursor.value as CacheEntry;
+      entries.push({ key, createdAt, size, store: storeName });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Drop expired entries, then the oldest ones until the cache fits its size limit
+export const enforceCacheLimits = async (): Promise<void> => {
+  if (!isAvailable()) return;
+  const settings = await getCacheSettings();
+  const entries = [...await listEntries(TILE_STORE), ...await listEntries(GRAPH_STORE)]
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  const maxBytes = settings.maxSizeMB * 1024 * 1024;
+
+  for (const entry of entries) {
+    const expired = !isFresh(entry, settings);
+    if (!expired && total <= maxBytes) break;
+    await withStore(entry.store, 'readwrite', s => s.delete(entry.key));
+    total -= entry.size;
+  }
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const empty: CacheStats = { tileCount: 0, graphCount: 0, totalBytes: 0, oldestEntry: null };
+  if (!isAvailable()) return empty;
+  const tiles = await listEntries(TILE_STORE);
+  const graphs = await listEntries(GRAPH_STORE);
+  const all = [...tiles, ...graphs];
+  return {
+    tileCount: tiles.length,
+    graphCount: graphs.length,
+    totalBytes: all.reduce((sum, e) => sum + e.size, 0),
+    oldestEntry: all.length > 0 ? Math.min(...all.map(e => e.createdAt)) : null
+  };
+};
+
+export const clearCache = async (): Promise<void> => {
+  if (!isAvailable()) return;
+  await withStore(TILE_STORE, 'readwrite', s => s.clear());
+  await withStore(GRAPH_STORE, 'readwrite', s => s.clear());
+};
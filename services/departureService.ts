@@ -0,0 +1,28 @@
+export interface Departure {
+  date: string; // YYYYMMDD
+  weekday: number; // 0 = Sunday
+  hour: number;
+  seconds: number; // After local midnight
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Parse a local 'YYYY-MM-DDTHH:MM' departure; defaults to now
+export const parseDeparture = (departure?: string): Departure => {
+  const match = departure?.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/);
+  const d = match ? new Date(+match[1], +match[2] - 1, +match[3], +match[4], +match[5]) : new Date();
+  return {
+    date: `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}`,
+    weekday: d.getDay(),
+    hour: d.getHours(),
+    seconds: d.getHours() * 3600 + d.getMinutes() * 60
+  };
+};
+
+export const isWeekend = (departure: Departure) => departure.weekday === 0 || departure.weekday === 6;
+
+// Today at 08:00 local time, as a datetime-local value
+export const getDefaultDeparture = (): string => {
+  const d = new Date();
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T08:00`;
+};
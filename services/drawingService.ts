@@ -0,0 +1,58 @@
+import { DrawingTool, IsochroneResult, TransportMode } from '../types';
+
+// Vertices are [lat, lng] pairs as Leaflet reports them
+export type Vertex = [number, number];
+
+export const MIN_VERTICES: Record<DrawingTool, number> = {
+  [DrawingTool.POINT]: 1,
+  [DrawingTool.LINE]: 2,
+  [DrawingTool.POLYGON]: 3
+};
+
+const DRAWING_LABELS: Record<DrawingTool, string> = {
+  [DrawingTool.POINT]: 'Point',
+  [DrawingTool.LINE]: 'Line',
+  [DrawingTool.POLYGON]: 'Polygon'
+};
+
+// GeoJSON geometry of a sketch; null until it has enough vertices
+export const getDrawnGeometry = (tool: DrawingTool, vertices: Vertex[]): any => {
+  if (vertices.length < MIN_VERTICES[tool]) return null;
+  const coordinates = vertices.map(([lat, lng]) => [lng, lat]);
+  if (tool === DrawingTool.POINT) return { type: 'Point', coordinates: coordinates[0] };
+  if (tool === DrawingTool.LINE) return { type: 'LineString', coordinates };
+  return { type: 'Polygon', coordinates: [[...coordinates, coordinates[0]]] };
+};
+
+// Vertices of a drawn result, without the closing vertex of a polygon ring
+export const getDrawnVertices = (result: IsochroneResult): Vertex[] => {
+  const geometry = result.polygon.geometry;
+  const coordinates: number[][] = geometry.type === 'Point' ? [geometry.coordinates]
+    : geometry.type === 'LineString' ? geometry.coordinates
+    : geometry.coordinates[0].slice(0, -1);
+  return coordinates.map(([lng, lat]) => [lat, lng]);
+};
+
+// Default name for the next drawing with a tool, e.g. "Polygon 2"
+export const getDrawingName = (tool: DrawingTool, history: IsochroneResult[]): string => {
+  const taken = new Set(history.filter(h => h.drawn).map(h => h.drawn!.name));
+  let n = 1;
+  while (taken.has(`${DRAWING_LABELS[tool]} ${n}`)) n++;
+  return `${DRAWING_LABELS[tool]} ${n}`;
+};
+
+// A drawn feature as a history layer. The params are placeholders anchored at the first
+// vertex, like those of other static layers.
+export const createDrawnResult = (tool: DrawingTool, vertices: Vertex[], name: string): IsochroneResult | null => {
+  const geometry = getDrawnGeometry(tool, vertices);
+  if (!geometry) return null;
+  return {
+    polygon: { type: 'Feature', geometry, properties: { name } },
+    params: { lat: vertices[0][0], lng: vertices[0][1], mode: TransportMode.WALKING, minutes: 0 },
+    drawn: { tool, name }
+  };
+};
+
+// The result with its vertices moved or deleted; unchanged if too few would remain
+export const updateDrawnResult = (result: IsochroneResult, vertices: Vertex[]): IsochroneResult =>
+  createDrawnResult(result.drawn!.tool, vertices, result.drawn!.name) ?? result;
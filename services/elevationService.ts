@@ -0,0 +1,326 @@
+import { Edge, ElevationModel, GraphData, TransportMode } from '../types';
+import {
+  CYCLING_DOWNHILL_GAIN,
+  CYCLING_MAX_DOWNHILL_FACTOR,
+  CYCLING_UPHILL_PENALTY,
+  MAX_EDGE_SLOPE
+} from '../constants';
+
+// Heights outside this range are treated as voids (e.g. undeclared nodata values)
+const MIN_VALID_HEIGHT = -500;
+const MAX_VALID_HEIGHT = 9000;
+
+const toModel = (
+  name: string,
+  grid: Omit<ElevationModel, 'name' | 'minElevation' | 'maxElevation'>,
+  nodata: number | null
+): ElevationModel => {
+  let minElevation = Infinity;
+  let maxElevation = -Infinity;
+  const { heights } = grid;
+  const fill = nodata === null ? null : Math.fround(nodata);
+  for (let i = 0; i < heights.length; i++) {
+    const h = heights[i];
+    if (h === fill || !(h >= MIN_VALID_HEIGHT && h <= MAX_VALID_HEIGHT)) {
+      heights[i] = NaN;
+      continue;
+    }
+    if (h < minElevation) minElevation = h;
+    if (h > maxElevation) maxElevation = h;
+  }
+  if (minElevation > maxElevation) throw new Error(`${name} holds no elevation values`);
+  return { name, ...grid, minElevation, maxElevation };
+};
+
+// SRTM .hgt tile: big-endian int16 samples on a square grid whose edges lie on whole degrees;
+// the file name gives the south-west corner (e.g. S07E107.hgt)
+export const parseSrtmHgt = (name: string, buffer: ArrayBuffer): ElevationModel => {
+  const match = name.match(/([NS])(\d{1,2})([EW])(\d{1,3})/i);
+  if (!match) throw new Error(`Cannot tell the tile position from "${name}" (expected e.g. S07E107.hgt)`);
+  const size = Math.sqrt(buffer.byteLength / 2);
+  if (!Number.isInteger(size) || size < 2) throw new Error(`${name} is not an SRTM tile`);
+
+  const south = parseInt(match[2], 10) * (match[1].toUpperCase() === 'S' ? -1 : 1);
+  const west = parseInt(match[4], 10) * (match[3].toUpperCase() === 'W' ? -1 : 1);
+  const view = new DataView(buffer);
+  const heights = new Float32Array(size * size);
+  for (let i = 0; i < heights.length; i++) heights[i] = view.getInt16(i * 2);
+
+  const cell = 1 / (size - 1);
+  return toModel(name, { west, north: south + 1, cellWidth: cell, cellHeight: cell, cols: size, rows: size, heights }, -32768);
+};
+
+// TIFF tag ids used below
+const TAG = {
+  width: 256, height: 257, bitsPerSample: 258, compression: 259, stripOffsets: 273, samplesPerPixel: 277,
+  rowsPerStrip: 278, stripByteCounts: 279, predictor: 317, tileWidth: 322, tileHeight: 323, tileOffsets: 324,
+  tileByteCounts: 325, sampleFormat: 339, pixelScale: 33550, tiepoint: 33922, geoKeys: 34735, nodata: 42113
+};
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+// Tag values of the first image directory, as numbers (or a string for ASCII tags)
+const readIfd = (view: DataView, little: boolean): Map<number, number[] | string> => {
+  const tags = new Map<number, number[] | string>();
+  const ifd = view.getUint32(4, little);
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const pos = ifd + 2 + i * 12;
+    const tag = view.getUint16(pos, little);
+    const type = view.getUint16(pos + 2, little);
+    const n = view.getUint32(pos + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    const start = size * n <= 4 ? pos + 8 : view.getUint32(pos + 8, little);
+
+    if (type === 2) {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + start, n);
+      tags.set(tag, new TextDecoder().decode(bytes).replace(/\0+$/, ''));
+      continue;
+    }
+    const values: number[] = [];
+    for (let j = 0; j < n; j++) {
+      const at = start + j * size;
+      values.push(
+        type === 3 ? view.getUint16(at, little)
+        : type === 4 ? view.getUint32(at, little)
+        : type === 8 ? view.getInt16(at, little)
+        : type === 9 ? view.getInt32(at, little)
+        : type === 11 ? view.getFloat32(at, little)
+        : type === 12 ? view.getFloat64(at, little)
+        : type === 5 ? view.getUint32(at, little) / view.getUint32(at + 4, little)
+        : type === 10 ? view.getInt32(at, little) / view.getInt32(at + 4, little)
+        : type === 6 ? view.getInt8(at)
+        : view.getUint8(at)
+      );
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+};
+
+// TIFF LZW: MSB-first codes from 9 to 12 bits, widening one code early
+const decodeLzw = (input: Uint8Array, expectedBytes: number): Uint8Array => {
+  const out = new Uint8Array(expectedBytes);
+  const prefix = new Int32Array(4096);
+  const suffix = new Uint8Array(4096);
+  const first = new Uint8Array(4096);
+  const lengths = new Int32Array(4096);
+  for (let i = 0; i < 256; i++) {
+    prefix[i] = -1;
+    suffix[i] = first[i] = i;
+    lengths[i] = 1;
+  }
+
+  let next = 258;
+  let width = 9;
+  let bitPos = 0;
+  let outPos = 0;
+  let prev = -1;
+
+  const write = (code: number) => {
+    const length = lengths[code];
+    for (let c = code, pos = outPos + length - 1; c >= 0; c = prefix[c], pos--) {
+      if (pos < expectedBytes) out[pos] = suffix[c];
+    }
+    outPos += length;
+  };
+  const add = (code: number, byte: number) => {
+    if (next >= 4096) return;
+    prefix[next] = code;
+    suffix[next] = byte;
+    first[next] = first[code];
+    lengths[next] = lengths[code] + 1;
+    next++;
+  };
+
+  while (bitPos + width <= input.length * 8 && outPos < expectedBytes) {
+    let code = 0;
+    for (let b = 0; b < width; b++, bitPos++) {
+      code = (code << 1) | ((input[bitPos >> 3] >> (7 - (bitPos & 7))) & 1);
+    }
+    if (code === 257) break;
+    if (code === 256) {
+      next = 258;
+      width = 9;
+      prev = -1;
+      continue;
+    }
+    if (code > next || (prev < 0 && code > 255)) throw new Error('Corrupt LZW data');
+    if (prev < 0) {
+      write(code);
+    } else if (code < next) {
+      write(code);
+      add(prev, first[code]);
+    } else {
+      add(prev, first[prev]);
+      write(code);
+    }
+    prev = code;
+    if (next >= (1 << width) - 1 && width < 12) width++;
+  }
+  return out;
+};
+
+// zlib-wrapped deflate; DecompressionStream exists in browsers, workers and Node 18+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Single-band GeoTIFF in geographic coordinates (e.g. SRTM or Copernicus DEM exports):
+// strips or tiles, uncompressed, LZW or deflate, integer or float samples
+export const parseGeoTiff = async (name: string, buffer: ArrayBuffer): Promise<ElevationModel> => {
+  const view = new DataView(buffer);
+  const order = view.getUint16(0);
+  const little = order === 0x4949;
+  if ((!little && order !== 0x4d4d) || view.getUint16(2, little) !== 42) {
+    throw new Error(`${name} is not a TIFF file (BigTIFF is not supported)`);
+  }
+
+  const tags = readIfd(view, little);
+  const num = (tag: number, fallback?: number): number => {
+    const value = tags.get(tag);
+    if (Array.isArray(value)) return value[0];
+    if (fallback === undefined) throw new Error(`${name} is missing TIFF tag ${tag}`);
+    return fallback;
+  };
+  const list = (tag: number): number[] => {
+    const value = tags.get(tag);
+    return Array.isArray(value) ? value : [];
+  };
+
+  const cols = num(TAG.width);
+  const rows = num(TAG.height);
+  const bits = num(TAG.bitsPerSample, 1);
+  const format = num(TAG.sampleFormat, 1); // 1 unsigned, 2 signed, 3 float
+  const compression = num(TAG.compression, 1);
+  const predictor = num(TAG.predictor, 1);
+  if (num(TAG.samplesPerPixel, 1) !== 1) throw new Error(`${name} has more than one band`);
+  if (![1, 5, 8, 32946].includes(compression)) throw new Error(`${name} uses an unsupported TIFF compression (${compression})`);
+  if (predictor === 3 || (predictor === 2 && format === 3)) throw new Error(`${name} uses an unsupported floating point predictor`);
+  const readSample = (d: DataView, at: number): number =>
+    format === 3 ? (bits === 64 ? d.getFloat64(at, little) : d.getFloat32(at, little))
+    : bits === 8 ? (format === 2 ? d.getInt8(at) : d.getUint8(at))
+    : bits === 16 ? (format === 2 ? d.getInt16(at, little) : d.getUint16(at, little))
+    : bits === 32 ? (format === 2 ? d.getInt32(at, little) : d.getUint32(at, little))
+    : NaN;
+  if (Number.isNaN(readSample(new DataView(new ArrayBuffer(8)), 0))) throw new Error(`${name} has unsupported ${bits}-bit samples`);
+
+  // Georeferencing: only lat/lng rasters are understood
+  const geoKeys = list(TAG.geoKeys);
+  const geoKey = (id: number) => {
+    for (let i = 4; i + 3 < geoKeys.length; i += 4) if (geoKeys[i] === id && geoKeys[i + 1] === 0) return geoKeys[i + 3];
+    return undefined;
+  };
+  if (geoKey(1024) !== undefined && geoKey(1024) !== 2) throw new Error(`${name} is projected; reproject it to EPSG:4326 first`);
+  const [scaleX, scaleY] = list(TAG.pixelScale);
+  const [i, j, , x, y] = list(TAG.tiepoint);
+  if (!scaleX || !scaleY || x === undefined) throw new Error(`${name} is not georeferenced`);
+  // Tiepoints locate a cell's corner, or its centre for PixelIsPoint rasters
+  const isPoint = geoKey(1025) === 2;
+  const west = x - i * scaleX + (isPoint ? 0 : scaleX / 2);
+  const north = y + j * scaleY - (isPoint ? 0 : scaleY / 2);
+
+  const tiled = tags.has(TAG.tileOffsets);
+  const chunkWidth = tiled ? num(TAG.tileWidth) : cols;
+  const chunkHeight = tiled ? num(TAG.tileHeight) : Math.min(num(TAG.rowsPerStrip, rows), rows);
+  const offsets = list(tiled ? TAG.tileOffsets : TAG.stripOffsets);
+  const byteCounts = list(tiled ? TAG.tileByteCounts : TAG.stripByteCounts);
+  const chunksAcross = Math.ceil(cols / chunkWidth);
+  const bytesPerSample = bits / 8;
+  const mask = 2 ** bits;
+
+  const heights = new Float32Array(cols * rows);
+  for (let c = 0; c < offsets.length; c++) {
+    const row0 = Math.floor(c / chunksAcross) * chunkHeight;
+    const col0 = (c % chunksAcross) * chunkWidth;
+    // Strips end at the last row; tiles are always full size
+    const height = tiled ? chunkHeight : Math.min(chunkHeight, rows - row0);
+    const expected = chunkWidth * height * bytesPerSample;
+    const raw = new Uint8Array(buffer, offsets[c], byteCounts[c]);
+    const bytes = compression === 5 ? decodeLzw(raw, expected) : compression === 1 ? raw : await inflate(raw);
+    const chunk = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    for (let r = 0; r < height; r++) {
+      let previous = 0;
+      for (let k = 0; k < chunkWidth; k++) {
+        let value = readSample(chunk, (r * chunkWidth + k) * bytesPerSample);
+        // Horizontal differencing: each sample is stored relative to its left neighbour
+        if (predictor === 2 && k > 0) {
+          value = (((previous + value) % mask) + mask) % mask;
+          if (format === 2 && value >= mask / 2) value -= mask;
+        }
+        previous = value;
+        const row = row0 + r;
+        const col = col0 + k;
+        if (row < rows && col < cols) heights[row * cols + col] = value;
+      }
+    }
+  }
+
+  const nodata = typeof tags.get(TAG.nodata) === 'string' ? parseFloat(tags.get(TAG.nodata) as string) : NaN;
+  return toModel(name, { west, north, cellWidth: scaleX, cellHeight: scaleY, cols, rows, heights }, Number.isNaN(nodata) ? null : nodata);
+};
+
+export const parseElevationFile = async (name: string, buffer: ArrayBuffer): Promise<ElevationModel> => {
+  if (/\.hgt$/i.test(name)) return parseSrtmHgt(name, buffer);
+  if (/\.tiff?$/i.test(name)) return parseGeoTiff(name, buffer);
+  throw new Error('Elevation models must be GeoTIFF (.tif) or SRTM (.hgt) files');
+};
+
+// Bilinear elevation between the four surrounding cells; null outside the model or next to voids
+export const sampleElevation = (dem: ElevationModel, lat: number, lng: number): number | null => {
+  const fx = (lng - dem.west) / dem.cellWidth;
+  const fy = (dem.north - lat) / dem.cellHeight;
+  if (fx < 0 || fy < 0 || fx > dem.cols - 1 || fy > dem.rows - 1) return null;
+
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, dem.cols - 1);
+  const y1 = Math.min(y0 + 1, dem.rows - 1);
+  const tx = fx - x0;
+  const ty = fy - y0;
+  const at = (x: number, y: number) => dem.heights[y * dem.cols + x];
+  const top = at(x0, y0) * (1 - tx) + at(x1, y0) * tx;
+  const bottom = at(x0, y1) * (1 - tx) + at(x1, y1) * tx;
+  const value = top * (1 - ty) + bottom * ty;
+  return Number.isNaN(value) ? null : value;
+};
+
+// Tobler's hiking function, 6·exp(-3.5·|slope + 0.05|) km/h, relative to its flat-ground
+// speed: fastest on a gentle descent, slower up or down anything steeper
+export const getToblerFactor = (slope: number): number => Math.exp(-3.5 * Math.abs(slope + 0.05)) / Math.exp(-3.5 * 0.05);
+
+// Cycling speed relative to the flat: climbs cost far more than descents give back
+export const getCyclingSlopeFactor = (slope: number): number => slope >= 0
+  ? 1 / (1 + CYCLING_UPHILL_PENALTY * slope)
+  : Math.min(CYCLING_MAX_DOWNHILL_FACTOR, 1 - CYCLING_DOWNHILL_GAIN * slope);
+
+// Rescale walking and cycling edge weights by the slope between their DEM-sampled ends.
+// Edges are directed, so a climb and the descent back down get different times. Transit
+// shares the walking network. Returns a new graph, as applyTrafficConditions does.
+export const applyElevation = (graph: GraphData, dem: ElevationModel, mode: TransportMode): GraphData => {
+  if (mode === TransportMode.DRIVING) return graph;
+  const speedFactor = mode === TransportMode.CYCLING ? getCyclingSlopeFactor : getToblerFactor;
+
+  const elevations = new Map<string, number | null>();
+  const elevationOf = (id: string): number | null => {
+    if (!elevations.has(id)) {
+      const node = graph.nodes.get(id);
+      elevations.set(id, node ? sampleElevation(dem, node.lat, node.lon) : null);
+    }
+    return elevations.get(id)!;
+  };
+
+  const adjust = (edge: Edge): Edge => {
+    const from = elevationOf(edge.source);
+    const to = elevationOf(edge.target);
+    if (from === null || to === null || !edge.distance) return edge;
+    const slope = Math.max(-MAX_EDGE_SLOPE, Math.min(MAX_EDGE_SLOPE, (to - from) / edge.distance));
+    return { ...edge, weight: edge.weight / speedFactor(slope) };
+  };
+
+  const adjacency = new Map<string, Edge[]>();
+  graph.adjacency.forEach((edges, id) => adjacency.set(id, edges.map(adjust)));
+  return { nodes: graph.nodes, adjacency, spatialIndex: graph.spatialIndex, segmentIndex: graph.segmentIndex };
+};
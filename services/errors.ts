@@ -0,0 +1,48 @@
+// Failures callers can branch on without parsing messages. The worker passes only the
+// message on to the UI; the headless library and the CLI rely on `code`.
+export type IsochroneErrorCode =
+  | 'invalid_params' // Params the pipeline cannot run with
+  | 'network_unavailable' // The road network could not be loaded
+  | 'out_of_bounds' // The origin lies outside the available road network
+  | 'unroutable_origin' // No usable road near the origin
+  | 'empty_isochrone'; // Too little was reached to draw a polygon
+
+export class IsochroneError extends Error {
+  readonly code: IsochroneErrorCode;
+
+  constructor(code: IsochroneErrorCode, message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+    this.code = code;
+  }
+}
+
+export class InvalidParamsError extends IsochroneError {
+  constructor(message: string) {
+    super('invalid_params', message);
+  }
+}
+
+export class NetworkUnavailableError extends IsochroneError {
+  constructor(message: string, options?: ErrorOptions) {
+    super('network_unavailable', message, options);
+  }
+}
+
+export class OutOfBoundsError extends IsochroneError {
+  constructor(message: string) {
+    super('out_of_bounds', message);
+  }
+}
+
+export class UnroutableOriginError extends IsochroneError {
+  constructor(message: string) {
+    super('unroutable_origin', message);
+  }
+}
+
+export class EmptyIsochroneError extends IsochroneError {
+  constructor(message: string) {
+    super('empty_isochrone', message);
+  }
+}
@@ -0,0 +1,640 @@
+import { ExportFormat, IsochroneParams, IsochroneResult, TransportMode, TravelDirection, TravelTimeSurface } from '../types';
+import { DEFAULT_MAX_TRANSFERS } from '../constants';
+import { createZip } from './zipService';
+import { buildTravelTimeSurface } from './surfaceService';
+import { getCutoffs } from './isochroneService';
+import { describeAvoidance } from './avoidanceService';
+
+type Attributes = Record<string, string | number | null>;
+
+interface ExportFeature {
+  geometry: any;
+  attributes: Attributes;
+}
+
+export interface ExportFile {
+  blob: Blob;
+  filename: string;
+}
+
+const WGS84_WKT = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+const encoder = new TextEncoder();
+
+// Analysis params flattened into attribute columns (names fit the 10-char DBF limit)
+export const paramsToAttributes = (params: IsochroneParams): Attributes => ({
+  mode: params.mode,
+  minutes: params.minutes,
+  bands: params.bands && params.bands.length > 1 ? params.bands.join('/') : null,
+  method: params.polygonMethod ?? null,
+  direction: params.direction ?? TravelDirection.OUTBOUND,
+  departure: params.mode === TransportMode.TRANSIT || params.mode === TransportMode.DRIVING ? params.departure ?? null : null,
+  max_xfer: params.mode === TransportMode.TRANSIT ? params.maxTransfers ?? DEFAULT_MAX_TRANSFERS : null,
+  orig_lat: params.lat,
+  orig_lng: params.lng,
+  avoid: describeAvoidance(params.avoid).join(',') || null
+});
+
+// Params plus coverage statistics, when they have been computed
+export const resultToAttributes = (result: IsochroneResult): Attributes => {
+  // Drawn features carry no analysis params
+  if (result.drawn) return { name: result.drawn.name, shape: result.drawn.tool };
+  const attributes = paramsToAttributes(result.params);
+  if (result.clippedTo) attributes.clip = result.clippedTo;
+  if (result.overlay) {
+    attributes.overlay = result.overlay.operation;
+    attributes.n_inputs = result.overlay.inputs.length;
+    attributes.d_area_km2 = Math.round(result.overlay.areaDeltaKm2 * 1000) / 1000;
+  }
+  if (result.gaps) {
+    attributes.n_facility = result.gaps.facilityCount;
+    attributes.uncov_km2 = Math.round(result.gaps.uncoveredKm2 * 1000) / 1000;
+    if (result.gaps.uncoveredPopulation !== undefined) attributes.uncov_pop = Math.round(result.gaps.uncoveredPopulation);
+  }
+  const stats = result.stats;
+  if (stats) {
+    attributes.area_km2 = Math.round(stats.areaKm2 * 1000) / 1000;
+    if (stats.roadLengthKm !== undefined) attributes.road_km = Math.round(stats.roadLengthKm * 100) / 100;
+    attributes.n_school = stats.amenities.schools;
+    attributes.n_health = stats.amenities.hospitals;
+    attributes.n_market = stats.amenities.markets;
+    attributes.n_transit = stats.amenities.transit_stops;
+    if (stats.population !== undefined) attributes.population = Math.round(stats.population);
+  }
+  return attributes;
+};
+
+const toAttributeValue = (value: any): string | number | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  return JSON.stringify(value);
+};
+
+// Flatten a result into features carrying both their own properties and the params
+const getExportFeatures = (result: IsochroneResult): ExportFeature[] => {
+  const root = result.polygon;
+  const features = root.type === 'FeatureCollection' ? root.features
+    : root.type === 'Feature' ? [root]
+    : [{ type: 'Feature', geometry: root, properties: {} }];
+  const base = resultToAttributes(result);
+
+  return features
+    .filter((f: any) => f?.geometry)
+    .map((f: any) => {
+      const attributes: Attributes = { ...base };
+      Object.entries(f.properties || {}).forEach(([k, v]) => { attributes[k] = toAttributeValue(v); });
+      return { geometry: f.geometry, attributes };
+    });
+};
+
+export const getExportBaseName = (result: IsochroneResult): string => {
+  if (result.drawn) return `drawn_${result.drawn.name.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`;
+  const p = result.params;
+  const minutes = p.bands && p.bands.length > 1 ? p.bands.join('-') : `${p.minutes}`;
+  const direction = p.direction === TravelDirection.INBOUND ? '_inbound' : '';
+  const overlay = result.overlay ? `_${result.overlay.operation}` : '';
+  return `isochrone_${p.mode}_${minutes}m${direction}${result.batch ? '_batch' : ''}${overlay}${result.gaps ? '_gaps' : ''}`;
+};
+
+// Polygon rings of a Polygon/MultiPolygon geometry, grouped per polygon
+const getPolygons = (geometry: any): number[][][][] => {
+  if (geometry.type === 'Polygon') return [geometry.coordinates];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates;
+  return [];
+};
+
+// [minX, minY, maxX, maxY] in one pass; spreading large results into Math.min/max overflows the stack
+const getCoordBounds = (coords: number[][]): [number, number, number, number] => {
+  const bounds: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const [x, y] of coords) {
+    if (x < bounds[0]) bounds[0] = x;
+    if (y < bounds[1]) bounds[1] = y;
+    if (x > bounds[2]) bounds[2] = x;
+    if (y > bounds[3]) bounds[3] = y;
+  }
+  return bounds;
+};
+
+// Shoelace area; positive for counter-clockwise rings
+const signedArea = (ring: number[][]) => {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) sum += (ring[i + 1][0] - ring[i][0]) * (ring[i + 1][1] + ring[i][1]);
+  return -sum / 2;
+};
+
+const collectColumns = (features: ExportFeature[]): string[] => {
+  const columns: string[] = [];
+  features.forEach(f => Object.keys(f.attributes).forEach(k => { if (!columns.includes(k)) columns.push(k); }));
+  return columns;
+};
+
+const isNumericColumn = (features: ExportFeature[], column: string) =>
+  features.every(f => f.attributes[column] === null || f.attributes[column] === undefined || typeof f.attributes[column] === 'number');
+
+// --- GeoJSON ---
+
+const exportGeoJson = (result: IsochroneResult): ExportFile => {
+  const collection = {
+    type: 'FeatureCollection',
+    features: getExportFeatures(result).map(f => ({ type: 'Feature', geometry: f.geometry, properties: f.attributes }))
+  };
+  return {
+    blob: new Blob([JSON.stringify(collection)], { type: 'application/geo+json' }),
+    filename: `${getExportBaseName(result)}.geojson`
+  };
+};
+
+// --- Shapefile (.shp/.shx/.dbf/.prj/.cpg, zipped) ---
+
+const SHAPE_POINT = 1;
+const SHAPE_POLYLINE = 3;
+const SHAPE_POLYGON = 5;
+
+// A shapefile holds a single shape type
+const getShapeType = (geometry: any): number =>
+  geometry.type === 'Point' ? SHAPE_POINT
+    : geometry.type === 'LineString' || geometry.type === 'MultiLineString' ? SHAPE_POLYLINE
+    : SHAPE_POLYGON;
+
+// Parts of a record: the point itself, the lines of a polyline or the rings of a polygon
+const getShapeParts = (geometry: any, shapeType: number): number[][][] => {
+  if (shapeType === SHAPE_POINT) return geometry.type === 'Point' ? [[geometry.coordinates]] : [];
+  if (shapeType === SHAPE_POLYLINE) {
+    if (geometry.type === 'LineString') return [geometry.coordinates];
+    return geometry.type === 'MultiLineString' ? geometry.coordinates : [];
+  }
+  // Shapefile polygons: outer rings clockwise, holes counter-clockwise
+  const rings: number[][][] = [];
+  getPolygons(geometry).forEach(polygon => polygon.forEach((ring, i) => {
+    const clockwise = signedArea(ring) < 0;
+    rings.push((i === 0) === clockwise ? ring : [...ring].reverse());
+  }));
+  return rings;
+};
+
+const writeShp = (features: ExportFeature[], shapeType: number): { shp: Uint8Array; shx: Uint8Array } => {
+  const records = features.map(f => getShapeParts(f.geometry, shapeType));
+
+  const contentLengths = records.map(rings => rings.length === 0 ? 4
+    : shapeType === SHAPE_POINT ? 20
+    : 44 + 4 * rings.length + 16 * rings.reduce((n, r) => n + r.length, 0));
+  const shpLength = 100 + contentLengths.reduce((n, l) => n + 8 + l, 0);
+  const shp = new DataView(new ArrayBuffer(shpLength));
+  const shx = new DataView(new ArrayBuffer(100 + 8 * records.length));
+
+  const all = records.flat(2);
+  const bbox = all.length > 0 ? getCoordBounds(all) : [0, 0, 0, 0];
+
+  const writeHeader = (view: DataView, byteLength: number) => {
+    view.setInt32(0, 9994); // File code (big endian)
+    view.setInt32(24, byteLength / 2); // File length in 16-bit words
+    view.setInt32(28, 1000, true); // Version
+    view.setInt32(32, shapeType, true);
+    bbox.forEach((v, i) => view.setFloat64(36 + i * 8, v, true));
+  };
+  writeHeader(shp, shpLength);
+  writeHeader(shx, shx.byteLength);
+
+  let pos = 100;
+  records.forEach((rings, i) => {
+    shx.setInt32(100 + i * 8, pos / 2);
+    shx.setInt32(104 + i * 8, contentLengths[i] / 2);
+    shp.setInt32(pos, i + 1); // Record number
+    shp.setInt32(pos + 4, contentLengths[i] / 2);
+    pos += 8;
+
+    if (rings.length === 0) {
+      shp.setInt32(pos, 0, true); // Null shape
+      pos += 4;
+      return;
+    }
+
+    const coords = rings.flat();
+    shp.setInt32(pos, shapeType, true);
+    if (shapeType === SHAPE_POINT) {
+      shp.setFloat64(pos + 4, coords[0][0], true);
+      shp.setFloat64(pos + 12, coords[0][1], true);
+      pos += 20;
+      return;
+    }
+    getCoordBounds(coords).forEach((v, j) => shp.setFloat64(pos + 4 + j * 8, v, true));
+    shp.setInt32(pos + 36, rings.length, true);
+    shp.setInt32(pos + 40, coords.length, true);
+    pos += 44;
+    let start = 0;
+    rings.forEach(ring => {
+      shp.setInt32(pos, start, true);
+      pos += 4;
+      start += ring.length;
+    });
+    coords.forEach(([x, y]) => {
+      shp.setFloat64(pos, x, true);
+      shp.setFloat64(pos + 8, y, true);
+      pos += 16;
+    });
+  });
+
+  return { shp: new Uint8Array(shp.buffer), shx: new Uint8Array(shx.buffer) };
+};
+
+const writeDbf = (features: ExportFeature[]): Uint8Array => {
+  const columns = collectColumns(features);
+  const usedNames = new Set<string>();
+  const fields = columns.map(column => {
+    // DBF field names are at most 10 ASCII characters and must be unique
+    const base = column.replace(/[^A-Za-z0-9_]/g, '_').slice(0, 10) || 'field';
+    let name = base;
+    for (let n = 1; usedNames.has(name.toUpperCase()); n++) name = `${base.slice(0, 10 - String(n).length)}${n}`;
+    usedNames.add(name.toUpperCase());
+    const numeric = isNumericColumn(features, column);
+    return { column, name, type: numeric ? 'N' : 'C', length: numeric ? 19 : 254, decimals: numeric ? 8 : 0 };
+  });
+
+  const headerLength = 32 + 32 * fields.length + 1;
+  const recordLength = 1 + fields.reduce((n, f) => n + f.length, 0);
+  const out = new Uint8Array(headerLength + recordLength * features.length + 1);
+  const view = new DataView(out.buffer);
+  const now = new Date();
+
+  view.setUint8(0, 0x03);
+  view.setUint8(1, now.getFullYear() - 1900);
+  view.setUint8(2, now.getMonth() + 1);
+  view.setUint8(3, now.getDate());
+  view.setUint32(4, features.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  fields.forEach((f, i) => {
+    const base = 32 + i * 32;
+    out.set(encoder.encode(f.name), base);
+    out[base + 11] = f.type.charCodeAt(0);
+    out[base + 16] = f.length;
+    out[base + 17] = f.decimals;
+  });
+  out[headerLength - 1] = 0x0d;
+
+  let pos = headerLength;
+  features.forEach(feature => {
+    out.fill(0x20, pos, pos + recordLength); // Space-padded, not deleted
+    let fieldPos = pos + 1;
+    fields.forEach(f => {
+      const value = feature.attributes[f.column];
+      if (value !== null && value !== undefined) {
+        let bytes: Uint8Array;
+        if (f.type === 'N') {
+          const text = Number.isInteger(value) ? String(value) : (value as number).toFixed(f.decimals);
+          bytes = encoder.encode(text.padStart(f.length).slice(-f.length));
+        } else {
+          bytes = encoder.encode(String(value)).slice(0, f.length);
+        }
+        out.set(bytes, fieldPos);
+      }
+      fieldPos += f.length;
+    });
+    pos += recordLength;
+  });
+  out[pos] = 0x1a;
+
+  return out;
+};
+
+const exportShapefile = (result: IsochroneResult): ExportFile => {
+  // Polygons unless the result holds only points or only lines, e.g. a drawn feature
+  const all = getExportFeatures(result);
+  const types = new Set(all.map(f => getShapeType(f.geometry)));
+  const shapeType = types.size === 1 ? [...types][0] : SHAPE_POLYGON;
+  const features = all.filter(f => getShapeParts(f.geometry, shapeType).length > 0);
+  const name = getExportBaseName(result);
+  const { shp, shx } = writeShp(features, shapeType);
+
+  const zip = createZip([
+    { name: `${name}.shp`, data: shp },
+    { name: `${name}.shx`, data: shx },
+    { name: `${name}.dbf`, data: writeDbf(features) },
+    { name: `${name}.prj`, data: encoder.encode(WGS84_WKT) },
+    { name: `${name}.cpg`, data: encoder.encode('UTF-8') }
+  ]);
+  return { blob: new Blob([zip.slice()], { type: 'application/zip' }), filename: `${name}.zip` };
+};
+
+// --- KML ---
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const kmlCoordinates = (coords: number[][]) => coords.map(c => `${c[0]},${c[1]}`).join(' ');
+
+const kmlPolygon = (rings: number[][][]) => `<Polygon>${rings.map((ring, i) => {
+  const tag = i === 0 ? 'outerBoundaryIs' : 'innerBoundaryIs';
+  return `<${tag}><LinearRing><coordinates>${kmlCoordinates(ring)}</coordinates></LinearRing></${tag}>`;
+}).join('')}</Polygon>`;
+
+const kmlGeometry = (geometry: any): string => {
+  switch (geometry.type) {
+    case 'Point': return `<Point><coordinates>${kmlCoordinates([geometry.coordinates])}</coordinates></Point>`;
+    case 'LineString': return `<LineString><coordinates>${kmlCoordinates(geometry.coordinates)}</coordinates></LineString>`;
+    case 'Polygon': return kmlPolygon(geometry.coordinates);
+    case 'MultiPoint':
+    case 'MultiLineString':
+    case 'MultiPolygon': {
+      const single = geometry.type.replace('Multi', '');
+      return `<MultiGeometry>${geometry.coordinates.map((c: any) => kmlGeometry({ type: single, coordinates: c })).join('')}</MultiGeometry>`;
+    }
+    case 'GeometryCollection': return `<MultiGeometry>${geometry.geometries.map(kmlGeometry).join('')}</MultiGeometry>`;
+    default: return '';
+  }
+};
+
+const exportKml = (result: IsochroneResult): ExportFile => {
+  const name = getExportBaseName(result);
+  const placemarks = getExportFeatures(result).map((f, i) => {
+    const data = Object.entries(f.attributes)
+      .filter(([, v]) => v !== null && v !== undefined)
+      .map(([k, v]) => `<Data name="${escapeXml(k)}"><value>${escapeXml(String(v))}</value></Data>`)
+      .join('');
+    const label = f.attributes.band ? `${f.attributes.band} min` : `${name} ${i + 1}`;
+    return `<Placemark><name>${escapeXml(String(label))}</name><ExtendedData>${data}</ExtendedData>${kmlGeometry(f.geometry)}</Placemark>`;
+  }).join('\n');
+
+  const kml = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+<Document><name>${escapeXml(name)}</name>
+${placemarks}
+</Document>
+</kml>`;
+  return { blob: new Blob([kml], { type: 'application/vnd.google-earth.kml+xml' }), filename: `${name}.kml` };
+};
+
+// --- GeoPackage ---
+
+const WKB_TYPES: Record<string, number> = {
+  Point: 1, LineString: 2, Polygon: 3, MultiPoint: 4, MultiLineString: 5, MultiPolygon: 6
+};
+
+// Little-endian WKB, sized exactly before writing
+const writeWkb = (geometry: any): Uint8Array => {
+  const sizeOf = (g: any): number => {
+    switch (g.type) {
+      case 'Point': return 5 + 16;
+      case 'LineString': return 9 + 16 * g.coordinates.length;
+      case 'Polygon': return 9 + g.coordinates.reduce((n: number, r: number[][]) => n + 4 + 16 * r.length, 0);
+      default: {
+        const single = g.type.replace('Multi', '');
+        return 9 + g.coordinates.reduce((n: number, c: any) => n + sizeOf({ type: single, coordinates: c }), 0);
+      }
+    }
+  };
+
+  const out = new DataView(new ArrayBuffer(sizeOf(geometry)));
+  let pos = 0;
+  const u8 = (v: number) => { out.setUint8(pos, v); pos += 1; };
+  const u32 = (v: number) => { out.setUint32(pos, v, true); pos += 4; };
+  const point = (c: number[]) => { out.setFloat64(pos, c[0], true); out.setFloat64(pos + 8, c[1], true); pos += 16; };
+
+  const write = (g: any) => {
+    u8(1);
+    u32(WKB_TYPES[g.type]);
+    switch (g.type) {
+      case 'Point': point(g.coordinates); break;
+      case 'LineString': u32(g.coordinates.length); g.coordinates.forEach(point); break;
+      case 'Polygon':
+        u32(g.coordinates.length);
+        g.coordinates.forEach((ring: number[][]) => { u32(ring.length); ring.forEach(point); });
+        break;
+      default: {
+        const single = g.type.replace('Multi', '');
+        u32(g.coordinates.length);
+        g.coordinates.forEach((c: any) => write({ type: single, coordinates: c }));
+      }
+    }
+  };
+  write(geometry);
+  return new Uint8Array(out.buffer);
+};
+
+const allCoordinates = (geometry: any): number[][] => {
+  switch (geometry.type) {
+    case 'Point': return [geometry.coordinates];
+    case 'LineString': case 'MultiPoint': return geometry.coordinates;
+    case 'Polygon': case 'MultiLineString': return geometry.coordinates.flat();
+    case 'MultiPolygon': return geometry.coordinates.flat(2);
+    default: return [];
+  }
+};
+
+// GeoPackage geometry blob: "GP" header with srs id and xy envelope, then WKB
+const writeGpkgGeometry = (geometry: any, srsId: number): Uint8Array => {
+  const wkb = writeWkb(geometry);
+  const header = new DataView(new ArrayBuffer(8 + 32));
+  header.setUint8(0, 0x47); // 'G'
+  header.setUint8(1, 0x50); // 'P'
+  header.setUint8(2, 0); // Version
+  header.setUint8(3, 0b00000011); // Little endian, xy envelope
+  header.setInt32(4, srsId, true);
+  const [minX, minY, maxX, maxY] = getCoordBounds(allCoordinates(geometry));
+  [minX, maxX, minY, maxY].forEach((v, i) => header.setFloat64(8 + i * 8, v, true));
+
+  const out = new Uint8Array(header.byteLength + wkb.length);
+  out.set(new Uint8Array(header.buffer), 0);
+  out.set(wkb, header.byteLength);
+  return out;
+};
+
+const exportGeoPackage = async (result: IsochroneResult): Promise<ExportFile> => {
+  const { default: initSqlJs } = await import('sql.js');
+  // In the browser the wasm binary is served as a bundled asset; Node resolves it from the package
+  const wasmUrl = typeof document !== 'undefined'
+    ? (await import('sql.js/dist/sql-wasm.wasm?url')).default
+    : undefined;
+  const SQL = await initSqlJs(wasmUrl ? { locateFile: () => wasmUrl } : undefined);
+  const db = new SQL.Database();
+
+  const name = getExportBaseName(result);
+  const table = 'isochrones';
+  const features = getExportFeatures(result).filter(f => WKB_TYPES[f.geometry.type]);
+  const columns = collectColumns(features);
+  const quote = (id: string) => `"${id.replace(/"/g, '""')}"`;
+
+  db.run(`PRAGMA application_id = 1196444487; PRAGMA user_version = 10200;`);
+  db.run(`CREATE TABLE gpkg_spatial_ref_sys (
+    srs_name TEXT NOT NULL, srs_id INTEGER PRIMARY KEY, organization TEXT NOT NULL,
+    organization_coordsys_id INTEGER NOT NULL, definition TEXT NOT NULL, description TEXT)`);
+  db.run(`INSERT INTO gpkg_spatial_ref_sys VALUES
+    ('Undefined cartesian SRS', -1, 'NONE', -1, 'undefined', NULL),
+    ('Undefined geographic SRS', 0, 'NONE', 0, 'undefined', NULL),
+    ('WGS 84 geodetic', 4326, 'EPSG', 4326, ?, 'longitude/latitude coordinates in decimal degrees on the WGS 84 spheroid')`,
+    [WGS84_WKT]);
+  db.run(`CREATE TABLE gpkg_contents (
+    table_name TEXT NOT NULL PRIMARY KEY, data_type TEXT NOT NULL, identifier TEXT UNIQUE,
+    description TEXT DEFAULT '', last_change DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+    min_x DOUBLE, min_y DOUBLE, max_x DOUBLE, max_y DOUBLE,
+    srs_id INTEGER REFERENCES gpkg_spatial_ref_sys(srs_id))`);
+  db.run(`CREATE TABLE gpkg_geometry_columns (
+    table_name TEXT NOT NULL, column_name TEXT NOT NULL, geometry_type_name TEXT NOT NULL,
+    srs_id INTEGER NOT NULL, z TINYINT NOT NULL, m TINYINT NOT NULL,
+    CONSTRAINT pk_geom_cols PRIMARY KEY (table_name, column_name))`);
+
+  const columnDefs = columns.map(c => `${quote(c)} ${isNumericColumn(features, c) ? 'REAL' : 'TEXT'}`);
+  db.run(`CREATE TABLE ${quote(table)} (fid INTEGER PRIMARY KEY AUTOINCREMENT, geom GEOMETRY${columnDefs.map(d => `, ${d}`).join('')})`);
+  db.run(`INSERT INTO gpkg_contents (table_name, data_type, identifier, min_x, min_y, max_x, max_y, srs_id) VALUES (?, 'features', ?, ?, ?, ?, ?, 4326)`, [
+    table, name, ...getCoordBounds(features.flatMap(f => allCoordinates(f.geometry)))
+  ]);
+  db.run(`INSERT INTO gpkg_geometry_columns VALUES (?, 'geom', 'GEOMETRY', 4326, 0, 0)`, [table]);
+
+  const insert = db.prepare(`INSERT INTO ${quote(table)} (geom${columns.map(c => `, ${quote(c)}`).join('')}) VALUES (?${columns.map(() => ', ?').join('')})`);
+  features.forEach(f => insert.run([writeGpkgGeometry(f.geometry, 4326), ...columns.map(c => f.attributes[c] ?? null)]));
+  insert.free();
+
+  const bytes = db.export();
+  db.close();
+  return { blob: new Blob([bytes.slice()], { type: 'application/geopackage+sqlite3' }), filename: `${name}.gpkg` };
+};
+
+// --- CSV of reached nodes ---
+
+const csvValue = (value: string | number | null) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const exportReachedNodesCsv = (result: IsochroneResult): ExportFile => {
+  const params = resultToAttributes(result);
+  const paramColumns = Object.keys(params);
+  const header = ['node_id', 'lat', 'lon', 'seconds', 'travel_min', ...paramColumns];
+  const rows = (result.reachedNodes || []).map(n => [
+    n.id, n.lat, n.lon, Math.round(n.seconds * 10) / 10, Math.round(n.seconds / 6) / 10,
+    ...paramColumns.map(c => params[c])
+  ].map(csvValue).join(','));
+
+  return {
+    blob: new Blob([[header.join(','), ...rows].join('\n')], { type: 'text/csv' }),
+    filename: `${getExportBaseName(result)}_nodes.csv`
+  };
+};
+
+// --- Travel-time rasters (GeoTIFF, ASCII grid), in minutes ---
+
+const RASTER_NODATA = -9999;
+
+export const getResultSurface = (result: IsochroneResult): TravelTimeSurface => {
+  const maxTimeSeconds = Math.max(...getCutoffs(result.params)) * 60;
+  const surface = result.reachedNodes?.length ? buildTravelTimeSurface(result.reachedNodes, maxTimeSeconds) : null;
+  if (!surface) throw new Error('This result has no per-node travel times to grid');
+  return surface;
+};
+
+// Baseline little-endian GeoTIFF: one uncompressed Float32 strip, EPSG:4326, pixel-is-area
+const writeGeoTiff = (surface: TravelTimeSurface): Uint8Array => {
+  const SHORT = 3, LONG = 4, DOUBLE = 12, ASCII = 2;
+  const nodata = encoder.encode(`${RASTER_NODATA}\0`);
+  const pixelScale = [surface.cellSize, surface.cellSize, 0];
+  const tiepoint = [0, 0, 0, surface.west, surface.north, 0];
+  // GeoKey directory: version header, then GTModelType = geographic, GTRasterType = area,
+  // GeographicType = WGS 84
+  const geoKeys = [1, 1, 0, 3, 1024, 0, 1, 2, 1025, 0, 1, 1, 2048, 0, 1, 4326];
+  const imageBytes = surface.cols * surface.rows * 4;
+
+  // Tag, type, count, then an inline value or the out-of-line data
+  const entries: [number, number, number, number | number[] | Uint8Array][] = [
+    [256, LONG, 1, surface.cols],
+    [257, LONG, 1, surface.rows],
+    [258, SHORT, 1, 32],
+    [259, SHORT, 1, 1], // No compression
+    [262, SHORT, 1, 1], // BlackIsZero
+    [273, LONG, 1, 0], // Strip offset, patched below
+    [277, SHORT, 1, 1],
+    [278, LONG, 1, surface.rows],
+    [279, LONG, 1, imageBytes],
+    [284, SHORT, 1, 1],
+    [339, SHORT, 1, 3], // IEEE floating point samples
+    [33550, DOUBLE, 3, pixelScale],
+    [33922, DOUBLE, 6, tiepoint],
+    [34735, SHORT, geoKeys.length, geoKeys],
+    [42113, ASCII, nodata.length, nodata] // GDAL_NODATA
+  ];
+
+  const ifdSize = 2 + entries.length * 12 + 4;
+  let extraOffset = 8 + ifdSize;
+  const extras = entries.map(([, type, count]) => {
+    const size = count * (type === DOUBLE ? 8 : type === SHORT ? 2 : type === LONG ? 4 : 1);
+    if (size <= 4) return null;
+    const offset = extraOffset;
+    extraOffset += size + (size % 2);
+    return offset;
+  });
+  const imageOffset = Math.ceil(extraOffset / 4) * 4;
+  entries[5][3] = imageOffset;
+
+  const view = new DataView(new ArrayBuffer(imageOffset + imageBytes));
+  view.setUint16(0, 0x4949); // "II": little endian
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, entries.length, true);
+
+  entries.forEach(([tag, type, count, value], i) => {
+    const pos = 10 + i * 12;
+    view.setUint16(pos, tag, true);
+    view.setUint16(pos + 2, type, true);
+    view.setUint32(pos + 4, count, true);
+    const offset = extras[i];
+    if (offset === null) {
+      if (type === SHORT) view.setUint16(pos + 8, value as number, true);
+      else view.setUint32(pos + 8, value as number, true);
+      return;
+    }
+    view.setUint32(pos + 8, offset, true);
+    const values = value as number[] | Uint8Array;
+    values.forEach((v, j) => {
+      if (type === DOUBLE) view.setFloat64(offset + j * 8, v, true);
+      else if (type === SHORT) view.setUint16(offset + j * 2, v, true);
+      else view.setUint8(offset + j, v);
+    });
+  });
+  view.setUint32(10 + entries.length * 12, 0, true); // No further IFDs
+
+  surface.minutes.forEach((v, i) => view.setFloat32(imageOffset + i * 4, Number.isNaN(v) ? RASTER_NODATA : v, true));
+  return new Uint8Array(view.buffer);
+};
+
+const exportGeoTiff = (result: IsochroneResult): ExportFile => ({
+  blob: new Blob([writeGeoTiff(getResultSurface(result)).slice()], { type: 'image/tiff' }),
+  filename: `${getExportBaseName(result)}_minutes.tif`
+});
+
+// Esri ASCII grid with a .prj, zipped
+const exportAsciiGrid = (result: IsochroneResult): ExportFile => {
+  const surface = getResultSurface(result);
+  const lines = [
+    `ncols ${surface.cols}`,
+    `nrows ${surface.rows}`,
+    `xllcorner ${surface.west}`,
+    `yllcorner ${surface.north - surface.rows * surface.cellSize}`,
+    `cellsize ${surface.cellSize}`,
+    `NODATA_value ${RASTER_NODATA}`
+  ];
+  for (let r = 0; r < surface.rows; r++) {
+    const row = surface.minutes.subarray(r * surface.cols, (r + 1) * surface.cols);
+    lines.push(Array.from(row, v => (Number.isNaN(v) ? RASTER_NODATA : Math.round(v * 100) / 100)).join(' '));
+  }
+
+  const name = `${getExportBaseName(result)}_minutes`;
+  const zip = createZip([
+    { name: `${name}.asc`, data: encoder.encode(lines.join('\n')) },
+    { name: `${name}.prj`, data: encoder.encode(WGS84_WKT) }
+  ]);
+  return { blob: new Blob([zip.slice()], { type: 'application/zip' }), filename: `${name}.zip` };
+};
+
+export const exportResult = async (result: IsochroneResult, format: ExportFormat): Promise<ExportFile> => {
+  switch (format) {
+    case ExportFormat.SHAPEFILE: return exportShapefile(result);
+    case ExportFormat.KML: return exportKml(result);
+    case ExportFormat.GEOPACKAGE: return exportGeoPackage(result);
+    case ExportFormat.NODES_CSV: return exportReachedNodesCsv(result);
+    case ExportFormat.GEOTIFF: return exportGeoTiff(result);
+    case ExportFormat.ASCII_GRID: return exportAsciiGrid(result);
+    default: return exportGeoJson(result);
+  }
+};
@@ -0,0 +1,191 @@
+import * as turf from '@turf/turf';
+import {
+  AnalysisLayers,
+  BatchOrigin,
+  CandidateRank,
+  FacilityCoverageOutput,
+  FacilityGapSummary,
+  FacilityPlan,
+  GraphData,
+  IsochroneParams,
+  NetworkSource,
+  PopulationLayer,
+  SpeedProfile,
+  TransportMode
+} from '../types';
+import { GAP_STUDY_AREA_MARGIN_METERS } from '../constants';
+import {
+  calculateTravelTimesFromSeeds,
+  generatePolygon,
+  getNetworkRequest,
+  getSpatialIndex,
+  prepareGraph,
+  ProgressCallback,
+  searchExpandingNetwork
+} from './isochroneService';
+import { createOverpassSource } from './networkSource';
+import { findNearestNode } from './spatialIndex';
+import { getDistance } from './graphBuilder';
+import { parseOriginsFromCsv, parseOriginsFromGeoJson } from './batchService';
+import { getCoverageArea, sumPopulation } from './statsService';
+
+// Facility or candidate points from a CSV or GeoJSON upload
+export const parseSitesFile = (name: string, text: string): BatchOrigin[] => {
+  const sites = /\.csv$/i.test(name) ? parseOriginsFromCsv(text) : parseOriginsFromGeoJson(JSON.parse(text));
+  if (sites.length === 0) throw new Error(`No point locations found in ${name}`);
+  return sites;
+};
+
+// District boundary from a GeoJSON upload; several polygons are merged into one
+export const parseBoundary = (geojson: any): any => {
+  const boundary = getCoverageArea({ polygon: geojson, params: { lat: 0, lng: 0, mode: TransportMode.WALKING, minutes: 0 } });
+  if (!boundary) throw new Error('The boundary file contains no polygons');
+  return boundary;
+};
+
+// Every site snapped to its nearest node, all starting at time zero
+const getSeeds = (graph: GraphData, sites: BatchOrigin[]): Map<string, number> => {
+  const index = getSpatialIndex(graph);
+  const seeds = new Map<string, number>();
+  for (const site of sites) {
+    const node = findNearestNode(index, site.lat, site.lng);
+    if (node) seeds.set(node.id, 0);
+  }
+  return seeds;
+};
+
+// Load one network around every site, then run a multi-source search from the existing
+// facilities and a single-source search from each candidate
+export const runFacilityCoveragePipeline = async (
+  plan: FacilityPlan,
+  params: IsochroneParams,
+  profile: SpeedProfile,
+  onProgress?: ProgressCallback,
+  source: NetworkSource = createOverpassSource(),
+  layers: AnalysisLayers = { transit: null, observedSpeeds: null, elevation: null }
+): Promise<FacilityCoverageOutput> => {
+  if (params.mode === TransportMode.TRANSIT) throw new Error('Gap analysis is not supported for transit');
+  if (plan.facilities.length === 0) throw new Error('Gap analysis needs at least one existing facility');
+
+  const sites = [...plan.facilities, ...plan.candidates];
+  const lats = sites.map(s => s.lat);
+  const lngs = sites.map(s => s.lng);
+  const lat = (Math.min(...lats) + Math.max(...lats)) / 2;
+  const lng = (Math.min(...lngs) + Math.max(...lngs)) / 2;
+  const spread = Math.max(...sites.map(s => getDistance(lat, lng, s.lat, s.lng)));
+
+  const maxTimeSeconds = params.minutes * 60;
+  const single = { ...params, bands: undefined };
+  const request = getNetworkRequest(params, profile, maxTimeSeconds, { lat, lng }, spread);
+
+  const { loaded, result } = await searchExpandingNetwork(request, source, maxTimeSeconds, loaded => {
+    const graph = prepareGraph(loaded, params, profile, layers);
+
+    onProgress?.('Mapping existing coverage', 0);
+    // Earliest time any search reached each node, to tell whether one ran off the network
+    const times = calculateTravelTimesFromSeeds(graph, getSeeds(graph, plan.facilities), maxTimeSeconds);
+    const covered = generatePolygon(graph, times, maxTimeSeconds, single);
+
+    const candidates = plan.candidates.map((site, i) => {
+      onProgress?.(`Candidate site ${i + 1} of ${plan.candidates.length}`, (i + 1) / (plan.candidates.length + 1));
+      const seeds = getSeeds(graph, [site]);
+      if (seeds.size === 0) return null;
+      const candidateTimes = calculateTravelTimesFromSeeds(graph, seeds, maxTimeSeconds);
+      candidateTimes.forEach((seconds, id) => {
+        if (seconds < (times.get(id) ?? Infinity)) times.set(id, seconds);
+      });
+      return generatePolygon(graph, candidateTimes, maxTimeSeconds, single);
+    });
+    return { times, covered, candidates };
+  }, onProgress);
+
+  return { covered: result.covered, candidates: result.candidates, networkFetchedAt: loaded.fetchedAt };
+};
+
+// Overlay helpers that treat invalid geometry as "no overlap" rather than failing the run
+const clip = (a: any, b: any): any => {
+  try {
+    return turf.intersect(turf.featureCollection([a, b]));
+  } catch (e) {
+    return null;
+  }
+};
+
+const subtract = (a: any, b: any): any => {
+  try {
+    return turf.difference(turf.featureCollection([a, b]));
+  } catch (e) {
+    return a;
+  }
+};
+
+export const getStudyArea = (plan: FacilityPlan): any => {
+  if (plan.boundary) return plan.boundary;
+  const points = turf.featureCollection([...plan.facilities, ...plan.candidates].map(s => turf.point([s.lng, s.lat])));
+  const hull = points.features.length >= 3 ? turf.convex(points) : null;
+  return turf.buffer(hull ?? points, GAP_STUDY_AREA_MARGIN_METERS, { units: 'meters' });
+};
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Clip the coverage to the study area and rank candidates greedily: each step adds the
+// candidate that newly covers the most people (or area, without a population layer)
+export const analyseCoverageGaps = (
+  plan: FacilityPlan,
+  output: FacilityCoverageOutput,
+  population: PopulationLayer | null
+): { polygon: any; summary: FacilityGapSummary } => {
+  const studyArea = getStudyArea(plan);
+  const areaKm2 = (area: any) => (area ? turf.area(area) / 1e6 : 0);
+  const people = (area: any) => (population ? (area ? sumPopulation(area, population) : 0) : undefined);
+
+  const covered = output.covered ? clip(output.covered, studyArea) : null;
+  const uncovered = output.covered ? subtract(studyArea, output.covered) : studyArea;
+
+  const features: any[] = [];
+  if (uncovered) features.push(turf.feature(uncovered.geometry, { zone: 'uncovered' }));
+  if (covered) features.push(turf.feature(covered.geometry, { zone: 'covered' }));
+
+  let remainingGap = uncovered;
+  const pending = plan.candidates.map((site, i) => ({ site, area: output.candidates[i] ? clip(output.candidates[i], studyArea) : null }));
+  const ranks: CandidateRank[] = [];
+  while (pending.length > 0) {
+    let bestIndex = 0;
+    let best = { gain: null as any, km2: 0, population: undefined as number | undefined, score: -1 };
+    pending.forEach((candidate, i) => {
+      const gain = candidate.area && remainingGap ? clip(candidate.area, remainingGap) : null;
+      const km2 = areaKm2(gain);
+      const gainPopulation = people(gain);
+      const score = gainPopulation ?? km2;
+      if (score > best.score) {
+        bestIndex = i;
+        best = { gain, km2, population: gainPopulation, score };
+      }
+    });
+
+    const { site, area } = pending.splice(bestIndex, 1)[0];
+    const rank = ranks.length + 1;
+    ranks.push({ id: site.id, lat: site.lat, lng: site.lng, rank, gainKm2: best.km2, gainPopulation: best.population });
+    if (best.gain) {
+      features.push(turf.feature(best.gain.geometry, {
+        zone: 'candidate',
+        site_id: site.id,
+        rank,
+        gain_km2: round(best.km2, 3),
+        gain_pop: best.population !== undefined ? Math.round(best.population) : null
+      }));
+      remainingGap = subtract(remainingGap, area);
+    }
+  }
+
+  return {
+    polygon: turf.featureCollection(features),
+    summary: {
+      facilityCount: plan.facilities.length,
+      studyAreaKm2: areaKm2(studyArea),
+      uncoveredKm2: areaKm2(uncovered),
+      uncoveredPopulation: people(uncovered),
+      candidates: ranks
+    }
+  };
+};
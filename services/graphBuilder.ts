@@ -0,0 +1,154 @@
+import { Node, GraphData, Edge, TransportMode, SpeedProfile, OsmElement, BBox } from '../types';
+import { MIN_COMPONENT_NODES } from '../constants';
+import { getWayDirection, isBarrierClosed, isToll, isUnpaved } from './osmTagService';
+import { getWaySpeed, getTravelTime } from './speedProfileService';
+
+// Get distance in meters between two points
+export const getDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const R = 6371e3; // metres
+  const φ1 = lat1 * Math.PI / 180;
+  const φ2 = lat2 * Math.PI / 180;
+  const Δφ = (lat2 - lat1) * Math.PI / 180;
+  const Δλ = (lon2 - lon1) * Math.PI / 180;
+
+  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+          Math.cos(φ1) * Math.cos(φ2) *
+          Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+
+  return R * c;
+};
+
+// Square bbox around a point
+export const getBBoxAround = (lat: number, lng: number, radiusMeters: number): BBox => {
+  const delta = radiusMeters / 111320;
+  return { minLat: lat - delta, maxLat: lat + delta, minLng: lng - delta, maxLng: lng + delta };
+};
+
+const isInBBox = (node: Node, bbox: BBox) =>
+  node.lat >= bbox.minLat && node.lat <= bbox.maxLat && node.lon >= bbox.minLng && node.lon <= bbox.maxLng;
+
+// Build a directed, time-weighted graph from OSM nodes and ways (Overpass JSON element shape).
+// When a bbox is given, only segments with at least one end inside it are kept.
+export const buildGraphFromElements = (
+  elements: OsmElement[],
+  mode: TransportMode,
+  profile: SpeedProfile,
+  bbox?: BBox
+): GraphData => {
+  const nodes = new Map<string, Node>();
+  const adjacency = new Map<string, Edge[]>();
+
+  // Parse nodes
+  elements.forEach((el) => {
+    if (el.type === 'node' && el.lat !== undefined && el.lon !== undefined) {
+      nodes.set(el.id.toString(), {
+        id: el.id.toString(),
+        lat: el.lat,
+        lon: el.lon,
+        ...(el.tags && isBarrierClosed(el.tags, mode) && { barrier: true })
+      });
+    }
+  });
+
+  // Parse ways and build adjacency
+  elements.forEach((el) => {
+    if (el.type === 'way' && el.nodes) {
+      // Ferry routes carry no highway tag; they are routed as a class of their own
+      const tags = el.tags?.route === 'ferry' && !el.tags.highway ? { ...el.tags, highway: 'ferry' } : el.tags || {};
+      const direction = getWayDirection(tags, mode);
+      if (direction === 'none') return;
+
+      const speedKmh = getWaySpeed(tags, profile);
+      if (speedKmh <= 0) return;
+
+      for (let i = 0; i < el.nodes.length - 1; i++) {
+        const uId = el.nodes[i].toString();
+        const vId = el.nodes[i + 1].toString();
+        const u = nodes.get(uId);
+        const v = nodes.get(vId);
+
+        if (u && v) {
+          if (bbox && !isInBBox(u, bbox) && !isInBBox(v, bbox)) continue;
+
+          const dist = getDistance(u.lat, u.lon, v.lat, v.lon);
+          const weight = getTravelTime(dist, speedKmh); // seconds
+
+          if (!adjacency.has(uId)) adjacency.set(uId, []);
+          if (!adjacency.has(vId)) adjacency.set(vId, []);
+
+          // Way id, class and length let traffic conditions rescale the weight later; the
+          // flags let an analysis avoid tolls or unpaved ways
+          const info = {
+            distance: dist,
+            wayId: el.id,
+            highway: tags.highway,
+            ...(isToll(tags) && { toll: true }),
+            ...(isUnpaved(tags) && { unpaved: true })
+          };
+          if (direction !== 'backward') adjacency.get(uId)!.push({ source: uId, target: vId, weight, ...info });
+          if (direction !== 'forward') adjacency.get(vId)!.push({ source: vId, target: uId, weight, ...info });
+        }
+      }
+    }
+  });
+
+  // Drop nodes that are not part of any usable way
+  nodes.forEach((_, id) => {
+    if (!adjacency.has(id)) nodes.delete(id);
+  });
+
+  return pruneSmallComponents({ nodes, adjacency }, MIN_COMPONENT_NODES);
+};
+
+// Remove connected fragments (ignoring edge direction) with fewer than minNodes nodes,
+// always keeping the largest. An origin snapped onto such a fragment would otherwise
+// produce a tiny isochrone. Mutates and returns the graph.
+export const pruneSmallComponents = (graph: GraphData, minNodes: number): GraphData => {
+  const ids = [...graph.adjacency.keys()];
+  const indexOf = new Map(ids.map((id, i) => [id, i]));
+  const parent = new Int32Array(ids.length).map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  graph.adjacency.forEach((edges, id) => {
+    for (const edge of edges) {
+      const a = find(indexOf.get(id)!);
+      const b = find(indexOf.get(edge.target)!);
+      if (a !== b) parent[a] = b;
+    }
+  });
+
+  const sizes = new Map<number, number>();
+  let largest = 0;
+  ids.forEach((_, i) => {
+    const size = (sizes.get(find(i)) || 0) + 1;
+    sizes.set(find(i), size);
+    largest = Math.max(largest, size);
+  });
+  ids.forEach((id, i) => {
+    const size = sizes.get(find(i))!;
+    if (size < minNodes && size < largest) {
+      graph.adjacency.delete(id);
+      graph.nodes.delete(id);
+    }
+  });
+  return graph;
+};
+
+// Same network with every edge flipped, so a search from a point yields travel times *to* it.
+// Nodes and the spatial indexes are shared with the original graph.
+export const reverseGraph = (graph: GraphData): GraphData => {
+  const adjacency = new Map<string, Edge[]>();
+  graph.adjacency.forEach((_, id) => adjacency.set(id, []));
+  graph.adjacency.forEach(edges => {
+    for (const edge of edges) {
+      adjacency.get(edge.target)!.push({ ...edge, source: edge.target, target: edge.source });
+    }
+  });
+  return { nodes: graph.nodes, adjacency, spatialIndex: graph.spatialIndex, segmentIndex: graph.segmentIndex };
+};
@@ -0,0 +1,183 @@
+import { TransitFeed, TransitPattern, TransitService, TransitStop, TransitTrip } from '../types';
+import { TRANSIT_TRANSFER_METERS, TRANSIT_WALK_DETOUR_FACTOR, TRANSPORT_SPEEDS } from '../constants';
+import { readZip } from './zipService';
+import { parseCsv } from './batchService';
+import { getDistance } from './graphBuilder';
+
+// GTFS static feed reader: stops, routes, trips, stop_times, frequencies, calendar and
+// calendar_dates. Reference: https://gtfs.org/schedule/reference/
+
+const WEEKDAY_COLUMNS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// "HH:MM:SS", where hours may exceed 24 for trips running past midnight
+const parseGtfsTime = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const [h, m, s] = value.split(':').map(Number);
+  if (![h, m].every(Number.isFinite)) return null;
+  return h * 3600 + m * 60 + (s || 0);
+};
+
+// Fill stops without times (non-timepoints) by interpolating between their neighbours
+const interpolateTimes = (times: (number | null)[]): number[] | null => {
+  const known = times.map((t, i) => (t === null ? -1 : i)).filter(i => i >= 0);
+  if (known.length < 2 || known[0] !== 0 || known[known.length - 1] !== times.length - 1) return null;
+  const out = [...times] as number[];
+  for (let k = 0; k < known.length - 1; k++) {
+    const a = known[k];
+    const b = known[k + 1];
+    for (let i = a + 1; i < b; i++) out[i] = out[a] + ((out[b] - out[a]) * (i - a)) / (b - a);
+  }
+  return out;
+};
+
+// Straight-line walking links between stops within TRANSIT_TRANSFER_METERS, via a coarse grid
+const buildTransfers = (stops: TransitStop[]): { to: number; seconds: number }[][] => {
+  const cellSize = TRANSIT_TRANSFER_METERS / 111320;
+  const walkMS = (TRANSPORT_SPEEDS.walking * 1000) / 3600;
+  const cells = new Map<string, number[]>();
+  stops.forEach((stop, i) => {
+    const key = `${Math.floor(stop.lon / cellSize)}:${Math.floor(stop.lat / cellSize)}`;
+    if (!cells.has(key)) cells.set(key, []);
+    cells.get(key)!.push(i);
+  });
+
+  return stops.map((stop, i) => {
+    const links: { to: number; seconds: number }[] = [];
+    const cx = Math.floor(stop.lon / cellSize);
+    const cy = Math.floor(stop.lat / cellSize);
+    // The grid is in degrees of latitude; longitude cells are narrower, so look two wide
+    for (let x = cx - 2; x <= cx + 2; x++) {
+      for (let y = cy - 1; y <= cy + 1; y++) {
+        for (const j of cells.get(`${x}:${y}`) || []) {
+          if (j === i) continue;
+          const dist = getDistance(stop.lat, stop.lon, stops[j].lat, stops[j].lon);
+          if (dist <= TRANSIT_TRANSFER_METERS) links.push({ to: j, seconds: (dist * TRANSIT_WALK_DETOUR_FACTOR) / walkMS });
+        }
+      }
+    }
+    return links;
+  });
+};
+
+export const parseGtfsZip = async (name: string, buffer: ArrayBuffer): Promise<TransitFeed> => {
+  const decoder = new TextDecoder();
+  const files = new Map<string, Record<string, string>[]>();
+  for (const entry of await readZip(buffer)) {
+    const baseName = entry.name.split('/').pop()!.toLowerCase();
+    if (baseName.endsWith('.txt')) files.set(baseName, parseCsv(decoder.decode(entry.data).replace(/^\uFEFF/, '')));
+  }
+  const table = (file: string) => files.get(file) || [];
+
+  for (const required of ['stops.txt', 'trips.txt', 'stop_times.txt']) {
+    if (!files.has(required)) throw new Error(`Not a GTFS feed: ${required} is missing`);
+  }
+
+  // Stops
+  const stops: TransitStop[] = [];
+  const stopIndex = new Map<string, number>();
+  for (const row of table('stops.txt')) {
+    const lat = parseFloat(row.stop_lat);
+    const lon = parseFloat(row.stop_lon);
+    if (!Number.isFinite(lat) || !Number.isFinite(lon)) continue;
+    stopIndex.set(row.stop_id, stops.length);
+    stops.push({ id: row.stop_id, name: row.stop_name || row.stop_id, lat, lon });
+  }
+
+  const routeNames = new Map<string, string>();
+  for (const row of table('routes.txt')) {
+    routeNames.set(row.route_id, row.route_short_name || row.route_long_name || row.route_id);
+  }
+
+  const tripInfo = new Map<string, { routeId: string; serviceId: string }>();
+  for (const row of table('trips.txt')) {
+    tripInfo.set(row.trip_id, { routeId: row.route_id, serviceId: row.service_id });
+  }
+
+  // Stop times grouped per trip, ordered by stop_sequence
+  const tripStops = new Map<string, { seq: number; stop: number; arrival: number | null; departure: number | null }[]>();
+  for (const row of table('stop_times.txt')) {
+    const stop = stopIndex.get(row.stop_id);
+    if (stop === undefined || !tripInfo.has(row.trip_id)) continue;
+    const arrival = parseGtfsTime(row.arrival_time);
+    const departure = parseGtfsTime(row.departure_time);
+    if (!tripStops.has(row.trip_id)) tripStops.set(row.trip_id, []);
+    tripStops.get(row.trip_id)!.push({
+      seq: parseInt(row.stop_sequence, 10),
+      stop,
+      arrival: arrival ?? departure,
+      departure: departure ?? arrival
+    });
+  }
+
+  // Frequency-based trips are expanded into one trip per headway
+  const frequencies = new Map<string, { start: number; end: number; headway: number }[]>();
+  for (const row of table('frequencies.txt')) {
+    const start = parseGtfsTime(row.start_time);
+    const end = parseGtfsTime(row.end_time);
+    const headway = parseInt(row.headway_secs, 10);
+    if (start === null || end === null || !(headway > 0)) continue;
+    if (!frequencies.has(row.trip_id)) frequencies.set(row.trip_id, []);
+    frequencies.get(row.trip_id)!.push({ start, end, headway });
+  }
+
+  const patterns = new Map<string, TransitPattern>();
+  tripStops.forEach((rows, tripId) => {
+    if (rows.length < 2) return;
+    rows.sort((a, b) => a.seq - b.seq);
+    const arrivals = interpolateTimes(rows.map(r => r.arrival));
+    const departures = interpolateTimes(rows.map(r => r.departure));
+    if (!arrivals || !departures) return;
+
+    const { routeId, serviceId } = tripInfo.get(tripId)!;
+    const stopSequence = rows.map(r => r.stop);
+    const key = `${routeId}|${stopSequence.join(',')}`;
+    if (!patterns.has(key)) {
+      patterns.set(key, { routeName: routeNames.get(routeId) || routeId, stops: stopSequence, trips: [] });
+    }
+
+    const trips: TransitTrip[] = [];
+    const windows = frequencies.get(tripId);
+    if (windows) {
+      const offset = departures[0];
+      for (const { start, end, headway } of windows) {
+        for (let t = start; t < end; t += headway) {
+          trips.push({
+            serviceId,
+            arrivals: arrivals.map(a => a - offset + t),
+            departures: departures.map(d => d - offset + t)
+          });
+        }
+      }
+    } else {
+      trips.push({ serviceId, arrivals, departures });
+    }
+    patterns.get(key)!.trips.push(...trips);
+  });
+  patterns.forEach(p => p.trips.sort((a, b) => a.departures[0] - b.departures[0]));
+
+  // Service calendars
+  const services: Record<string, TransitService> = {};
+  const getService = (id: string) =>
+    (services[id] = services[id] || { days: WEEKDAY_COLUMNS.map(() => false), startDate: '', endDate: '', added: [], removed: [] });
+  for (const row of table('calendar.txt')) {
+    const service = getService(row.service_id);
+    service.days = WEEKDAY_COLUMNS.map(day => row[day] === '1');
+    service.startDate = row.start_date;
+    service.endDate = row.end_date;
+  }
+  for (const row of table('calendar_dates.txt')) {
+    const service = getService(row.service_id);
+    if (row.exception_type === '1') service.added.push(row.date);
+    else if (row.exception_type === '2') service.removed.push(row.date);
+  }
+
+  if (patterns.size === 0) throw new Error('GTFS feed contains no usable trips');
+
+  return {
+    name,
+    stops,
+    patterns: [...patterns.values()],
+    transfers: buildTransfers(stops),
+    services
+  };
+};
@@ -1,53 +1,195 @@
 
-import { GraphData, IsochroneParams, Node } from '../types';
+import {
+  AnalysisLayers,
+  BBox,
+  Edge,
+  GraphData,
+  IsochroneOutput,
+  IsochroneParams,
+  NetworkRequest,
+  NetworkSource,
+  Node,
+  PolygonMethod,
+  ReachedNode,
+  SegmentIndex,
+  SpatialIndex,
+  SpeedProfile,
+  TransitFeed,
+  TransportMode,
+  TravelDirection
+} from '../types';
 import * as turf from '@turf/turf';
+import { TRANSPORT_SPEEDS, NETWORK_BUFFER_METERS, DEFAULT_MAX_TRANSFERS, CACHE_TILE_SIZE, MAX_NETWORK_EXPANSIONS } from '../constants';
+import { MinHeap } from './priorityQueue';
+import { buildSegmentIndex, buildSpatialIndex, findNearestSegment } from './spatialIndex';
+import { createOverpassSource } from './networkSource';
+import { getBBoxAround, getDistance, reverseGraph } from './graphBuilder';
+import { getActiveServices, runRaptor, snapStopsToGraph } from './transitService';
+import { parseDeparture } from './departureService';
+import { applyTrafficConditions } from './trafficService';
+import { applyElevation } from './elevationService';
+import { applyAvoidance } from './avoidanceService';
 
-// Simplified Dijkstra's algorithm
-export const calculateDijkstra = (graph: GraphData, startLat: number, startLng: number, maxTimeSeconds: number): Node[] => {
-  // Find nearest graph node to start point
-  let startNodeId: string | null = null;
-  let minDist = Infinity;
-  
-  graph.nodes.forEach((node, id) => {
-    const d = Math.pow(node.lat - startLat, 2) + Math.pow(node.lon - startLng, 2);
-    if (d < minDist) {
-      minDist = d;
-      startNodeId = id;
-    }
-  });
+export type ProgressCallback = (stage: string, fraction: number) => void;
+
+// Reuse the graph's spatial index, building it on first use
+export const getSpatialIndex = (graph: GraphData): SpatialIndex => {
+  if (!graph.spatialIndex) graph.spatialIndex = buildSpatialIndex(graph.nodes.values());
+  return graph.spatialIndex;
+};
+
+export const getSegmentIndex = (graph: GraphData): SegmentIndex => {
+  if (!graph.segmentIndex) graph.segmentIndex = buildSegmentIndex(graph.nodes, graph.adjacency);
+  return graph.segmentIndex;
+};
+
+export const ORIGIN_NODE_ID = 'origin';
+
+export interface SnappedOrigin {
+  graph: GraphData; // The input graph plus the origin's virtual node
+  seconds: number; // Walking connector from the clicked point onto the road
+  distanceMeters: number;
+}
+
+// Snap a point onto the nearest road segment and add a virtual node there, with edges to
+// both segment ends in whichever directions the segment can be travelled. The input graph
+// (which may be cached) is left untouched; node and adjacency maps are shallow copies.
+export const attachOrigin = (graph: GraphData, lat: number, lng: number): SnappedOrigin | null => {
+  const snap = findNearestSegment(getSegmentIndex(graph), graph.nodes, lat, lng);
+  if (!snap) return null;
+
+  const partial = (edge: Edge | undefined, fraction: number): Edge[] => edge
+    ? [{ ...edge, source: ORIGIN_NODE_ID, weight: edge.weight * fraction, distance: (edge.distance ?? 0) * fraction }]
+    : [];
+  const forward = graph.adjacency.get(snap.from)?.find(e => e.target === snap.to);
+  const backward = graph.adjacency.get(snap.to)?.find(e => e.target === snap.from);
+
+  const nodes = new Map(graph.nodes);
+  nodes.set(ORIGIN_NODE_ID, { id: ORIGIN_NODE_ID, lat: snap.lat, lon: snap.lon });
+  const adjacency = new Map(graph.adjacency);
+  adjacency.set(ORIGIN_NODE_ID, [...partial(forward, 1 - snap.fraction), ...partial(backward, snap.fraction)]);
 
-  if (!startNodeId) return [];
+  const walkMS = (TRANSPORT_SPEEDS.walking * 1000) / 3600;
+  return {
+    graph: { nodes, adjacency, spatialIndex: graph.spatialIndex, segmentIndex: graph.segmentIndex, fetchedAt: graph.fetchedAt },
+    seconds: snap.distanceMeters / walkMS,
+    distanceMeters: snap.distanceMeters
+  };
+};
+
+// Dijkstra's algorithm with a binary heap, bounded by maxTimeSeconds, from the point
+// snapped onto the network; the walk onto the road counts against the budget.
+// Returns the travel time in seconds to every settled node.
+export const calculateTravelTimes = (
+  graph: GraphData,
+  startLat: number,
+  startLng: number,
+  maxTimeSeconds: number,
+  onProgress?: ProgressCallback,
+  predecessors?: Map<string, Edge>
+): Map<string, number> => {
+  const origin = attachOrigin(graph, startLat, startLng);
+  if (!origin) return new Map();
+  return calculateTravelTimesFromSeeds(origin.graph, new Map([[ORIGIN_NODE_ID, origin.seconds]]), maxTimeSeconds, onProgress, predecessors);
+};
 
+// Multi-source variant: every seed node starts with its own initial time. When given,
+// `predecessors` receives the edge each settled node was reached by.
+export const calculateTravelTimesFromSeeds = (
+  graph: GraphData,
+  seeds: Map<string, number>,
+  maxTimeSeconds: number,
+  onProgress?: ProgressCallback,
+  predecessors?: Map<string, Edge>
+): Map<string, number> => {
+  const settled = new Map<string, number>();
   const distances = new Map<string, number>();
-  const pq: [number, string][] = [[0, startNodeId]];
-  distances.set(startNodeId, 0);
+  const pq = new MinHeap<string>();
+  seeds.forEach((time, id) => {
+    distances.set(id, time);
+    pq.push(time, id);
+  });
 
-  const reachableNodes: Node[] = [];
+  while (pq.size > 0) {
+    const [d, uId] = pq.pop()!;
 
-  while (pq.length > 0) {
-    // Basic priority queue sort
-    pq.sort((a, b) => a[0] - b[0]);
-    const [d, uId] = pq.shift()!;
+    // Skip stale queue entries for nodes already finalised
+    if (settled.has(uId)) continue;
+    // Keys come out in order, so nothing further can be within budget
+    if (d > maxTimeSeconds) break;
+    settled.set(uId, d);
 
-    if (d > maxTimeSeconds) continue;
-    
-    const uNode = graph.nodes.get(uId);
-    if (uNode) reachableNodes.push(uNode);
+    if (onProgress && settled.size % 2000 === 0) {
+      onProgress('Running shortest paths', d / maxTimeSeconds);
+    }
 
     const neighbors = graph.adjacency.get(uId) || [];
     for (const edge of neighbors) {
       const vId = edge.target;
-      const weight = edge.weight;
-      const newDist = d + weight;
+      if (settled.has(vId)) continue;
+      const newDist = d + edge.weight;
 
-      if (!distances.has(vId) || newDist < distances.get(vId)!) {
+      if (newDist <= maxTimeSeconds && (!distances.has(vId) || newDist < distances.get(vId)!)) {
         distances.set(vId, newDist);
-        pq.push([newDist, vId]);
+        predecessors?.set(vId, edge);
+        pq.push(newDist, vId);
       }
     }
   }
 
-  return reachableNodes;
+  return settled;
+};
+
+// Door-to-door transit travel times: walk to stops on the pedestrian graph, ride scheduled
+// trips, then walk on from every stop reached. Times stay relative to the departure.
+export const calculateTransitTravelTimes = (
+  origin: SnappedOrigin,
+  feed: TransitFeed,
+  params: IsochroneParams,
+  maxTimeSeconds: number,
+  onProgress?: ProgressCallback
+): Map<string, number> => {
+  const graph = origin.graph;
+  const walkTimes = calculateTravelTimesFromSeeds(graph, new Map([[ORIGIN_NODE_ID, origin.seconds]]), maxTimeSeconds);
+  const departure = parseDeparture(params.departure);
+  const links = snapStopsToGraph(feed, getSpatialIndex(graph));
+
+  const access = new Map<number, number>();
+  links.forEach((link, stop) => {
+    const walk = link && walkTimes.get(link.nodeId);
+    if (link && walk !== undefined) access.set(stop, departure.seconds + walk + link.seconds);
+  });
+
+  onProgress?.('Searching transit timetable', 0.3);
+  const arrivals = runRaptor(
+    feed,
+    access,
+    getActiveServices(feed, departure),
+    departure.seconds + maxTimeSeconds,
+    params.maxTransfers ?? DEFAULT_MAX_TRANSFERS
+  );
+
+  // Egress: a multi-source walk seeded with the origin's walk times and every reached stop
+  const seeds = new Map(walkTimes);
+  links.forEach((link, stop) => {
+    if (!link || arrivals[stop] === Infinity) return;
+    const time = arrivals[stop] - departure.seconds + link.seconds;
+    if (time <= maxTimeSeconds && time < (seeds.get(link.nodeId) ?? Infinity)) seeds.set(link.nodeId, time);
+  });
+
+  onProgress?.('Walking from reached stops', 0.6);
+  return calculateTravelTimesFromSeeds(graph, seeds, maxTimeSeconds);
+};
+
+// Nodes reachable from the start point within maxTimeSeconds, with their travel times
+export const calculateDijkstra = (
+  graph: GraphData,
+  startLat: number,
+  startLng: number,
+  maxTimeSeconds: number,
+  onProgress?: ProgressCallback
+): ReachedNode[] => {
+  return toReachedNodes(graph, calculateTravelTimes(graph, startLat, startLng, maxTimeSeconds, onProgress));
 };
 
 // Generate Polygon from nodes
@@ -69,3 +211,281 @@ export const generateHull = (nodes: Node[], maxTimeSeconds: number): any => {
     return turf.convex(featureCollection);
   }
 };
+
+// Road segments reachable within maxTimeSeconds; edges the budget runs out on are cut
+// at the exact point where the remaining time is used up
+export const getReachedSegments = (
+  graph: GraphData,
+  times: Map<string, number>,
+  maxTimeSeconds: number
+): number[][][] => {
+  const segments: number[][][] = [];
+
+  times.forEach((tu, uId) => {
+    if (tu > maxTimeSeconds) return;
+    const u = graph.nodes.get(uId);
+    if (!u) return;
+
+    for (const edge of graph.adjacency.get(uId) || []) {
+      const v = graph.nodes.get(edge.target);
+      if (!v) continue;
+
+      const remaining = maxTimeSeconds - tu;
+      if (remaining >= edge.weight) {
+        segments.push([[u.lon, u.lat], [v.lon, v.lat]]);
+      } else if (remaining > 0 && edge.weight > 0) {
+        const f = remaining / edge.weight;
+        segments.push([[u.lon, u.lat], [u.lon + (v.lon - u.lon) * f, u.lat + (v.lat - u.lat) * f]]);
+      }
+    }
+  });
+
+  return segments;
+};
+
+// Total length of road reached within maxTimeSeconds. Both directions of a two-way
+// street are counted once, using whichever direction covers more of it.
+export const getReachedRoadLengthMeters = (
+  graph: GraphData,
+  times: Map<string, number>,
+  maxTimeSeconds: number
+): number => {
+  const covered = new Map<string, number>();
+
+  times.forEach((tu, uId) => {
+    if (tu > maxTimeSeconds) return;
+    const u = graph.nodes.get(uId);
+    if (!u) return;
+
+    for (const edge of graph.adjacency.get(uId) || []) {
+      const v = graph.nodes.get(edge.target);
+      if (!v) continue;
+      const fraction = edge.weight > 0 ? Math.min(1, (maxTimeSeconds - tu) / edge.weight) : 1;
+      const key = uId < edge.target ? `${uId}|${edge.target}` : `${edge.target}|${uId}`;
+      const length = getDistance(u.lat, u.lon, v.lat, v.lon) * fraction;
+      covered.set(key, Math.max(covered.get(key) || 0, length));
+    }
+  });
+
+  let total = 0;
+  covered.forEach(length => { total += length; });
+  return total;
+};
+
+// Buffer the reached road segments and dissolve them into one (Multi)Polygon.
+// Unlike a hull this keeps holes and leaves disconnected islands apart.
+export const generateNetworkBuffer = (
+  graph: GraphData,
+  times: Map<string, number>,
+  maxTimeSeconds: number,
+  bufferMeters: number
+): any => {
+  const segments = getReachedSegments(graph, times, maxTimeSeconds);
+  if (segments.length === 0) return null;
+
+  try {
+    return turf.buffer(turf.multiLineString(segments), bufferMeters, { units: 'meters', steps: 4 }) || null;
+  } catch (e) {
+    console.error('Network buffer failed', e);
+    return null;
+  }
+};
+
+// Isochrone polygon for one cutoff using the chosen method
+export const generatePolygon = (
+  graph: GraphData,
+  times: Map<string, number>,
+  maxTimeSeconds: number,
+  params: IsochroneParams
+): any => {
+  if ((params.polygonMethod ?? PolygonMethod.NETWORK_BUFFER) === PolygonMethod.NETWORK_BUFFER) {
+    return generateNetworkBuffer(graph, times, maxTimeSeconds, NETWORK_BUFFER_METERS[params.mode]);
+  }
+
+  const nodes: Node[] = [];
+  times.forEach((t, id) => {
+    const node = graph.nodes.get(id);
+    if (node && t <= maxTimeSeconds) nodes.push(node);
+  });
+  return generateHull(nodes, maxTimeSeconds);
+};
+
+// Nested, non-overlapping bands (one ring per cutoff) from a single shortest-path tree
+export const generateBands = (
+  graph: GraphData,
+  times: Map<string, number>,
+  cutoffsMinutes: number[],
+  params: IsochroneParams
+): any => {
+  const cutoffs = [...cutoffsMinutes].sort((a, b) => a - b);
+  const features: any[] = [];
+  let inner: any = null;
+
+  cutoffs.forEach((cutoff, i) => {
+    const polygon = generatePolygon(graph, times, cutoff * 60, params);
+    if (!polygon) return;
+
+    let ring = polygon;
+    if (inner) {
+      try {
+        ring = turf.difference(turf.featureCollection([polygon, inner]));
+      } catch (e) {
+        ring = polygon;
+      }
+    }
+    inner = polygon;
+    if (!ring) return;
+
+    ring.properties = { band: cutoff, fromMinutes: i === 0 ? 0 : cutoffs[i - 1], toMinutes: cutoff };
+    features.push(ring);
+  });
+
+  return features.length > 0 ? turf.featureCollection(features) : null;
+};
+
+// Cutoffs (in minutes) requested by the params; a single band when none are set
+export const getCutoffs = (params: IsochroneParams): number[] => {
+  return params.bands && params.bands.length > 0
+    ? [...params.bands].sort((a, b) => a - b)
+    : [params.minutes];
+};
+
+// Settled nodes with their travel times, for tabular export
+export const toReachedNodes = (graph: GraphData, times: Map<string, number>): ReachedNode[] => {
+  const reached: ReachedNode[] = [];
+  times.forEach((seconds, id) => {
+    const node = graph.nodes.get(id);
+    if (node) reached.push({ id, lat: node.lat, lon: node.lon, seconds });
+  });
+  return reached;
+};
+
+// Edges and weights for the requested constraints, departure and direction, on top of a loaded network
+export const prepareGraph = (
+  loaded: GraphData,
+  params: IsochroneParams,
+  profile: SpeedProfile,
+  layers: AnalysisLayers
+): GraphData => {
+  const open = applyAvoidance(loaded, params.avoid);
+  // Driving weights follow the time of day and any observed speeds; walking and cycling
+  // weights follow the terrain when an elevation model is loaded
+  const timed = params.mode === TransportMode.DRIVING
+    ? applyTrafficConditions(open, profile, params.departure ? parseDeparture(params.departure) : null, layers.observedSpeeds)
+    : layers.elevation ? applyElevation(open, layers.elevation, params.mode)
+    : open;
+  // Inbound: search the reversed graph so times are measured towards the point
+  return params.direction === TravelDirection.INBOUND ? reverseGraph(timed) : timed;
+};
+
+// First guess at the network needed: what the mode's average speed covers in
+// maxTimeSeconds, beyond `spreadMeters` around the point. Fast roads run past it and
+// are picked up by searchExpandingNetwork.
+export const getNetworkRequest = (
+  params: IsochroneParams,
+  profile: SpeedProfile,
+  maxTimeSeconds: number,
+  at: { lat: number; lng: number } = params,
+  spreadMeters = 0
+): NetworkRequest => {
+  const speedMS = (TRANSPORT_SPEEDS[params.mode] * 1000) / 3600;
+  // Transit legs are walked, so transit shares the walking network (and its cache)
+  const mode = params.mode === TransportMode.TRANSIT ? TransportMode.WALKING : params.mode;
+  return { bbox: getBBoxAround(at.lat, at.lng, spreadMeters + speedMS * maxTimeSeconds), mode, profile };
+};
+
+// Area to load next when the search settled nodes outside the loaded bounds, i.e. on roads
+// the fetch cut off: each side is pushed past the furthest such node by what the remaining
+// budget covers at the mode's average speed, and at least one cache tile. Null when the
+// search stayed inside.
+export const getExpandedBBox = (
+  loaded: GraphData,
+  times: Map<string, number>,
+  maxTimeSeconds: number,
+  mode: TransportMode
+): BBox | null => {
+  const bounds = loaded.bounds;
+  if (!bounds) return null;
+
+  const speedMS = (TRANSPORT_SPEEDS[mode] * 1000) / 3600;
+  const grown = { ...bounds };
+  let outside = false;
+  times.forEach((seconds, id) => {
+    const node = loaded.nodes.get(id);
+    if (!node || seconds >= maxTimeSeconds) return;
+    const { lat, lon } = node;
+    if (lat >= bounds.minLat && lat <= bounds.maxLat && lon >= bounds.minLng && lon <= bounds.maxLng) return;
+
+    outside = true;
+    const margin = Math.max(CACHE_TILE_SIZE, ((maxTimeSeconds - seconds) * speedMS) / 111320);
+    if (lat < bounds.minLat) grown.minLat = Math.min(grown.minLat, lat - margin);
+    if (lat > bounds.maxLat) grown.maxLat = Math.max(grown.maxLat, lat + margin);
+    if (lon < bounds.minLng) grown.minLng = Math.min(grown.minLng, lon - margin);
+    if (lon > bounds.maxLng) grown.maxLng = Math.max(grown.maxLng, lon + margin);
+  });
+  return outside ? grown : null;
+};
+
+// Load the requested network and search it; while the search runs off the edge of what was
+// loaded, load a larger area (only the new tiles are fetched) and search again from scratch
+export const searchExpandingNetwork = async <T extends { times: Map<string, number> }>(
+  request: NetworkRequest,
+  source: NetworkSource,
+  maxTimeSeconds: number,
+  search: (loaded: GraphData) => T,
+  onProgress?: ProgressCallback
+): Promise<{ loaded: GraphData; result: T }> => {
+  let bbox = request.bbox;
+  onProgress?.(`Loading road network from ${source.label}`, 0);
+  for (let expansion = 0; ; expansion++) {
+    const loaded = await source.loadGraph({ ...request, bbox });
+    const result = search(loaded);
+    const grown = expansion < MAX_NETWORK_EXPANSIONS ? getExpandedBBox(loaded, result.times, maxTimeSeconds, request.mode) : null;
+    if (!grown) return { loaded, result };
+    bbox = grown;
+    onProgress?.(`Search reached the edge of the network, loading more from ${source.label}`, 0);
+  }
+};
+
+// Full fetch -> Dijkstra -> polygon pipeline; multi-band params yield a FeatureCollection
+export const runIsochronePipeline = async (
+  params: IsochroneParams,
+  profile: SpeedProfile,
+  onProgress?: ProgressCallback,
+  source: NetworkSource = createOverpassSource(),
+  layers: AnalysisLayers = { transit: null, observedSpeeds: null, elevation: null }
+): Promise<IsochroneOutput> => {
+  const isTransit = params.mode === TransportMode.TRANSIT;
+  if (isTransit && !layers.transit) throw new Error('Transit mode needs a GTFS feed');
+  if (isTransit && params.direction === TravelDirection.INBOUND) {
+    throw new Error('Inbound analysis is not supported for transit');
+  }
+
+  const cutoffs = getCutoffs(params);
+  const maxTimeSeconds = Math.max(...cutoffs) * 60;
+  const request = getNetworkRequest(params, profile, maxTimeSeconds);
+  const { loaded, result: { graph, times, origin } } = await searchExpandingNetwork(request, source, maxTimeSeconds, loaded => {
+    onProgress?.('Running shortest paths', 0);
+    const prepared = prepareGraph(loaded, params, profile, layers);
+    const origin = attachOrigin(prepared, params.lat, params.lng);
+    const graph = origin?.graph ?? prepared;
+    const times = !origin ? new Map<string, number>()
+      : isTransit ? calculateTransitTravelTimes(origin, layers.transit!, params, maxTimeSeconds, onProgress)
+      : calculateTravelTimesFromSeeds(graph, new Map([[ORIGIN_NODE_ID, origin.seconds]]), maxTimeSeconds, onProgress);
+    return { graph, times, origin };
+  }, onProgress);
+
+  onProgress?.('Generating polygon', 1);
+  // Band output is a FeatureCollection whenever bands were asked for, even a single one
+  const polygon = params.bands && params.bands.length > 0
+    ? generateBands(graph, times, cutoffs, params)
+    : generatePolygon(graph, times, maxTimeSeconds, params);
+
+  return {
+    polygon,
+    reachedNodes: toReachedNodes(graph, times),
+    roadLengthKm: getReachedRoadLengthMeters(graph, times, maxTimeSeconds) / 1000,
+    networkFetchedAt: loaded.fetchedAt,
+    originSnapMeters: origin?.distanceMeters
+  };
+};
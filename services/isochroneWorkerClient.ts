@@ -0,0 +1,135 @@
+import {
+  AnalysisLayers,
+  FacilityCoverageOutput,
+  FacilityPlan,
+  IsochroneOutput,
+  IsochroneParams,
+  IsochroneWorkerRequest,
+  IsochroneWorkerResponse,
+  NetworkSourceConfig,
+  RoadExtract,
+  RouteResult,
+  SpeedProfile,
+  WorkerSourceConfig
+} from '../types';
+import { ProgressCallback } from './isochroneService';
+
+let requestCounter = 0;
+let extractCounter = 0;
+const extractIds = new WeakMap<RoadExtract, number>();
+
+interface PooledWorker {
+  worker: Worker;
+  extractId?: number; // Extract the worker already holds
+}
+
+// One idle worker is kept between requests, so a loaded extract is not posted again
+let idleWorker: PooledWorker | null = null;
+
+const acquireWorker = (): PooledWorker => {
+  const pooled = idleWorker ?? { worker: new Worker(new URL('../workers/isochrone.worker.ts', import.meta.url), { type: 'module' }) };
+  idleWorker = null;
+  return pooled;
+};
+
+const releaseWorker = (pooled: PooledWorker) => {
+  if (idleWorker) pooled.worker.terminate();
+  else idleWorker = pooled;
+};
+
+// Name a local extract by id, attaching the elements only when this worker lacks them
+const toWorkerSource = (source: NetworkSourceConfig, pooled: PooledWorker): WorkerSourceConfig => {
+  if (source.type === 'overpass') return source;
+  let extractId = extractIds.get(source.extract);
+  if (extractId === undefined) {
+    extractId = ++extractCounter;
+    extractIds.set(source.extract, extractId);
+  }
+  const held = pooled.extractId === extractId;
+  pooled.extractId = extractId;
+  return { type: 'local', extractId, extract: held ? undefined : source.extract };
+};
+
+// Post one request to a worker and resolve with its output; aborting the signal
+// terminates the worker, while a finished one is kept for the next request
+const runInWorker = <T>(
+  request: Omit<IsochroneWorkerRequest, 'id' | 'source'> & { source: NetworkSourceConfig },
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Analysis cancelled', 'AbortError'));
+      return;
+    }
+
+    const pooled = acquireWorker();
+    const { worker } = pooled;
+    const id = ++requestCounter;
+
+    const finish = (keepWorker: boolean) => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.onmessage = null;
+      worker.onerror = null;
+      if (keepWorker) releaseWorker(pooled);
+      else worker.terminate();
+    };
+    const onAbort = () => {
+      finish(false);
+      reject(new DOMException('Analysis cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    worker.onmessage = (e: MessageEvent<IsochroneWorkerResponse>) => {
+      const message = e.data;
+      if (message.id !== id) return;
+      if (message.type === 'progress') {
+        onProgress?.(message.stage, message.fraction);
+      } else if (message.type === 'error') {
+        finish(true);
+        reject(new Error(message.message));
+      } else {
+        finish(true);
+        resolve(message.output as T);
+      }
+    };
+    worker.onerror = (e) => {
+      finish(false);
+      reject(new Error(e.message || 'Isochrone worker failed'));
+    };
+
+    worker.postMessage({ id, ...request, source: toWorkerSource(request.source, pooled) });
+  });
+};
+
+// Run the isochrone pipeline off the main thread
+export const runIsochroneInWorker = (
+  params: IsochroneParams,
+  profile: SpeedProfile,
+  source: NetworkSourceConfig,
+  layers: AnalysisLayers,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<IsochroneOutput> => runInWorker({ params, profile, source, layers }, onProgress, signal);
+
+// Run the graph part of a facility gap analysis off the main thread
+export const runFacilityCoverageInWorker = (
+  plan: FacilityPlan,
+  params: IsochroneParams,
+  profile: SpeedProfile,
+  source: NetworkSourceConfig,
+  layers: AnalysisLayers,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<FacilityCoverageOutput> => runInWorker({ params, profile, source, layers, plan }, onProgress, signal);
+
+// Trace the route from a result's origin to a destination off the main thread
+export const runRouteInWorker = (
+  params: IsochroneParams,
+  profile: SpeedProfile,
+  destination: { lat: number; lng: number },
+  source: NetworkSourceConfig,
+  layers: AnalysisLayers,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal
+): Promise<RouteResult> => runInWorker({ params, profile, source, layers, destination }, onProgress, signal);
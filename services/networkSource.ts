@@ -0,0 +1,42 @@
+import { GraphData, NetworkRequest, NetworkSource, NetworkSourceConfig, RoadExtract, TransportMode } from '../types';
+import { fetchRoadNetwork } from './overpassService';
+import { CachedTile } from './cacheService';
+import { buildGraphFromElements } from './graphBuilder';
+import { OutOfBoundsError } from './errors';
+
+// Live road network from the public Overpass API. The source keeps the tiles it fetched, so
+// a search that loads a larger area only downloads the new ones; create one per analysis.
+export const createOverpassSource = (): NetworkSource => {
+  const sessionTiles = new Map<string, CachedTile>();
+  return {
+    label: 'Overpass API',
+    loadGraph: ({ bbox, mode, profile }: NetworkRequest): Promise<GraphData> =>
+      fetchRoadNetwork(bbox, mode, profile, sessionTiles)
+  };
+};
+
+// Road network from a local extract, so analysis works fully offline
+export const createLocalSource = (extract: RoadExtract): NetworkSource => ({
+  label: extract.name,
+  loadGraph: async ({ bbox, mode, profile }: NetworkRequest): Promise<GraphData> => {
+    const graph = buildGraphFromElements(extract.elements, mode, profile, bbox);
+    if (graph.nodes.size === 0) throw new OutOfBoundsError(`No roads from ${extract.name} near this location`);
+    return { ...graph, bounds: bbox };
+  }
+});
+
+// Networks built once up front, per mode (e.g. by the HTTP API); every request gets the
+// whole graph, whose bounds already cover anything it can reach
+export const createPreloadedSource = (name: string, graphs: Partial<Record<TransportMode, GraphData>>): NetworkSource => ({
+  label: name,
+  loadGraph: async ({ mode }: NetworkRequest): Promise<GraphData> => {
+    const graph = graphs[mode];
+    if (!graph) throw new Error(`No ${mode} network was preloaded from ${name}`);
+    return graph;
+  }
+});
+
+// Resolve a serialisable source config (e.g. one posted to a worker) into a source
+export const createNetworkSource = (config: NetworkSourceConfig): NetworkSource => {
+  return config.type === 'local' ? createLocalSource(config.extract) : createOverpassSource();
+};
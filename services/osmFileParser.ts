@@ -0,0 +1,120 @@
+import { OsmElement, OsmTags, RoadExtract } from '../types';
+import { parseOsmPbf } from './pbfParser';
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXml = (value: string) =>
+  value.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-f]+);/gi, (_, entity: string) => {
+    if (entity[0] !== '#') return XML_ENTITIES[entity.toLowerCase()];
+    const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+
+const readAttributes = (source: string): Record<string, string> => {
+  const attrs: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attrs[match[1]] = decodeXml(match[3] ?? match[4]);
+  }
+  return attrs;
+};
+
+// Streaming-free OSM XML reader. Regex based rather than DOMParser so it also runs
+// inside Web Workers and Node, where no DOM is available.
+export const parseOsmXml = (xml: string): OsmElement[] => {
+  const elements: OsmElement[] = [];
+  const elementPattern = /<(node|way)\b([^>]*?)(\/>|>([\s\S]*?)<\/\1>)/g;
+
+  for (const match of xml.matchAll(elementPattern)) {
+    const [, type, attrSource, , body] = match;
+    const attrs = readAttributes(attrSource);
+    const id = Number(attrs.id);
+
+    let tags: OsmTags | undefined;
+    const nodeRefs: number[] = [];
+    if (body) {
+      for (const child of body.matchAll(/<(tag|nd)\b([^>]*?)\/?>/g)) {
+        const childAttrs = readAttributes(child[2]);
+        if (child[1] === 'tag') {
+          tags = tags || {};
+          tags[childAttrs.k] = childAttrs.v;
+        } else {
+          nodeRefs.push(Number(childAttrs.ref));
+        }
+      }
+    }
+
+    if (type === 'node') {
+      elements.push({ type: 'node', id, lat: Number(attrs.lat), lon: Number(attrs.lon), tags });
+    } else {
+      elements.push({ type: 'way', id, nodes: nodeRefs, tags });
+    }
+  }
+
+  return elements;
+};
+
+// Turn road LineStrings into OSM-shaped elements. Vertices with identical coordinates
+// become one shared node so lines connect at their junctions; feature properties act as tags.
+export const parseGeoJsonRoads = (geojson: any): OsmElement[] => {
+  const elements: OsmElement[] = [];
+  const nodeIds = new Map<string, number>();
+  let nextNodeId = -1;
+  let nextWayId = -1;
+
+  const getNodeId = ([lon, lat]: number[]) => {
+    const key = `${lon.toFixed(7)},${lat.toFixed(7)}`;
+    let id = nodeIds.get(key);
+    if (id === undefined) {
+      id = nextNodeId--;
+      nodeIds.set(key, id);
+      elements.push({ type: 'node', id, lat, lon });
+    }
+    return id;
+  };
+
+  const features = geojson.type === 'FeatureCollection' ? geojson.features : [geojson];
+  for (const feature of features) {
+    const geometry = feature?.geometry;
+    if (!geometry) continue;
+    const lines: number[][][] =
+      geometry.type === 'LineString' ? [geometry.coordinates] :
+      geometry.type === 'MultiLineString' ? geometry.coordinates : [];
+
+    const tags: OsmTags = {};
+    Object.entries(feature.properties || {}).forEach(([k, v]) => {
+      if (v !== null && v !== undefined) tags[k] = String(v);
+    });
+    // Untagged lines are treated as ordinary roads
+    if (!tags.highway) tags.highway = 'unclassified';
+
+    for (const line of lines) {
+      elements.push({ type: 'way', id: nextWayId--, nodes: line.map(getNodeId), tags });
+    }
+  }
+
+  return elements;
+};
+
+// Whether a parsed GeoJSON object looks like a road network rather than POIs or areas
+export const isGeoJsonRoadNetwork = (geojson: any): boolean => {
+  const features = geojson.type === 'FeatureCollection' ? geojson.features : [geojson];
+  return features.length > 0 && features.every((f: any) =>
+    f?.geometry?.type === 'LineString' || f?.geometry?.type === 'MultiLineString');
+};
+
+export const isRoadExtractFile = (fileName: string) => /\.(osm|xml|pbf)$/i.test(fileName);
+
+// Parse the contents of an OSM XML / PBF file into a road extract
+export const parseRoadExtract = async (name: string, data: ArrayBuffer): Promise<RoadExtract> => {
+  const elements = /\.pbf$/i.test(name)
+    ? await parseOsmPbf(data)
+    : parseOsmXml(new TextDecoder().decode(data));
+
+  if (!elements.some(el => el.type === 'way' && el.tags?.highway)) {
+    throw new Error('The file contains no highway ways');
+  }
+  return { name, elements };
+};
+
+export const parseRoadExtractFile = async (file: File): Promise<RoadExtract> =>
+  parseRoadExtract(file.name, await file.arrayBuffer());
@@ -0,0 +1,103 @@
+import { OsmTags, TransportMode, WayDirection } from '../types';
+
+const YES_VALUES = ['yes', 'true', '1'];
+const REVERSE_VALUES = ['-1', 'reverse'];
+const NO_VALUES = ['no', 'false', '0'];
+
+// Ways that are pedestrian infrastructure: a plain `oneway` tag applies to walkers here
+const PEDESTRIAN_HIGHWAYS = ['footway', 'pedestrian', 'path', 'steps'];
+
+// Mode-specific access keys, most specific first (OSM access hierarchy)
+const ACCESS_KEYS: Record<TransportMode, string[]> = {
+  [TransportMode.WALKING]: ['foot', 'access'],
+  [TransportMode.CYCLING]: ['bicycle', 'vehicle', 'access'],
+  [TransportMode.DRIVING]: ['motorcar', 'motor_vehicle', 'vehicle', 'access'],
+  [TransportMode.TRANSIT]: ['foot', 'access']
+};
+
+// Highways a mode can never use regardless of other tags
+const EXCLUDED_HIGHWAYS: Record<TransportMode, string[]> = {
+  [TransportMode.WALKING]: ['motorway', 'motorway_link', 'construction', 'proposed'],
+  [TransportMode.CYCLING]: ['motorway', 'motorway_link', 'construction', 'proposed'],
+  [TransportMode.DRIVING]: ['footway', 'pedestrian', 'path', 'steps', 'cycleway', 'bridleway', 'construction', 'proposed'],
+  [TransportMode.TRANSIT]: ['motorway', 'motorway_link', 'construction', 'proposed']
+};
+
+// Barriers that stop a mode, unless the node's access tags let it through
+const CLOSED_BARRIERS: Record<TransportMode, string[]> = {
+  [TransportMode.WALKING]: ['gate', 'swing_gate', 'wall', 'fence'],
+  [TransportMode.CYCLING]: ['gate', 'swing_gate', 'wall', 'fence', 'stile', 'turnstile', 'kissing_gate'],
+  [TransportMode.DRIVING]: [
+    'gate', 'swing_gate', 'wall', 'fence', 'stile', 'turnstile', 'kissing_gate',
+    'lift_gate', 'bollard', 'block', 'chain', 'cycle_barrier', 'jersey_barrier'
+  ],
+  [TransportMode.TRANSIT]: ['gate', 'swing_gate', 'wall', 'fence']
+};
+
+const UNPAVED_SURFACES = ['unpaved', 'gravel', 'fine_gravel', 'compacted', 'dirt', 'earth', 'ground', 'grass', 'mud', 'sand', 'rock', 'pebblestone'];
+
+const parseOneway = (value: string | undefined): WayDirection | null => {
+  if (value === undefined) return null;
+  if (YES_VALUES.includes(value)) return 'forward';
+  if (REVERSE_VALUES.includes(value)) return 'backward';
+  if (NO_VALUES.includes(value)) return 'both';
+  // Reversible / alternating ways change direction by time of day; treat as impassable
+  if (value === 'reversible' || value === 'alternating') return 'none';
+  return null;
+};
+
+// Mode-specific access tag, if any: true/false when it allows or forbids the mode
+const getAccess = (tags: OsmTags, mode: TransportMode): boolean | undefined => {
+  for (const key of ACCESS_KEYS[mode]) {
+    const value = tags[key];
+    if (value !== undefined) return !['no', 'private'].includes(value);
+  }
+  return undefined;
+};
+
+// Whether a way may be used at all by the given mode
+export const isWayAccessible = (tags: OsmTags, mode: TransportMode): boolean => {
+  if (!tags.highway || EXCLUDED_HIGHWAYS[mode].includes(tags.highway)) return false;
+  // Ferries carry cars only where tagged to
+  if (tags.highway === 'ferry' && mode === TransportMode.DRIVING) {
+    return ['yes', 'designated'].includes(tags.motorcar ?? tags.motor_vehicle ?? '');
+  }
+
+  return getAccess(tags, mode) ?? true;
+};
+
+// Whether a barrier node on a way stops the given mode
+export const isBarrierClosed = (tags: OsmTags, mode: TransportMode): boolean =>
+  !!tags.barrier && CLOSED_BARRIERS[mode].includes(tags.barrier) && getAccess(tags, mode) !== true;
+
+export const isToll = (tags: OsmTags): boolean => YES_VALUES.includes(tags.toll ?? '');
+
+export const isUnpaved = (tags: OsmTags): boolean => UNPAVED_SURFACES.includes(tags.surface ?? '');
+
+// Resolve in which direction(s) along its node order a way may be travelled
+export const getWayDirection = (tags: OsmTags, mode: TransportMode): WayDirection => {
+  if (!isWayAccessible(tags, mode)) return 'none';
+
+  if (mode === TransportMode.WALKING || mode === TransportMode.TRANSIT) {
+    const footOneway = parseOneway(tags['oneway:foot']);
+    if (footOneway) return footOneway;
+    if (PEDESTRIAN_HIGHWAYS.includes(tags.highway)) return parseOneway(tags.oneway) ?? 'both';
+    return 'both';
+  }
+
+  if (mode === TransportMode.CYCLING) {
+    const bicycleOneway = parseOneway(tags['oneway:bicycle']);
+    if (bicycleOneway) return bicycleOneway;
+    // Contraflow cycle lanes allow cycling against the general oneway
+    if (tags.cycleway?.startsWith('opposite')) return 'both';
+  }
+
+  const oneway = parseOneway(tags.oneway);
+  if (oneway) return oneway;
+
+  // Implied oneways
+  if (tags.junction === 'roundabout' || tags.junction === 'circular') return 'forward';
+  if (tags.highway === 'motorway') return 'forward';
+
+  return 'both';
+};
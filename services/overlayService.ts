@@ -0,0 +1,59 @@
+import * as turf from '@turf/turf';
+import { IsochroneResult, OverlayOperation } from '../types';
+import { getCoverageArea } from './statsService';
+
+const combine = (areas: any[], operation: OverlayOperation): any => {
+  if (operation === OverlayOperation.UNION) return turf.union(turf.featureCollection(areas));
+
+  if (operation === OverlayOperation.INTERSECTION) {
+    let result = areas[0];
+    for (const area of areas.slice(1)) {
+      result = turf.intersect(turf.featureCollection([result, area]));
+      if (!result) return null;
+    }
+    return result;
+  }
+
+  // Difference: the first input minus everything else
+  const rest = areas.length > 2 ? turf.union(turf.featureCollection(areas.slice(1))) : areas[1];
+  return rest ? turf.difference(turf.featureCollection([areas[0], rest])) : areas[0];
+};
+
+// Overlay two or more results into a new one; null when the overlay is empty.
+// The derived result keeps the first input's params so it styles and exports like it.
+export const overlayResults = (
+  inputs: IsochroneResult[],
+  operation: OverlayOperation,
+  getLabel: (result: IsochroneResult) => string
+): IsochroneResult | null => {
+  if (inputs.length < 2) throw new Error('Select at least two results to compare');
+  const areas = inputs.map(getCoverageArea);
+  if (areas.some(a => !a)) throw new Error('Only polygon results can be compared');
+
+  const combined = combine(areas, operation);
+  if (!combined) return null;
+
+  const polygon = turf.feature(combined.geometry, { operation });
+  const areaKm2 = turf.area(polygon) / 1e6;
+  return {
+    polygon,
+    params: { ...inputs[0].params },
+    overlay: {
+      operation,
+      inputs: inputs.map(r => ({ label: getLabel(r), params: r.params, computedAt: r.provenance?.computedAt })),
+      areaKm2,
+      areaDeltaKm2: areaKm2 - turf.area(areas[0]) / 1e6
+    }
+  };
+};
+
+// Clip a result polygon, or each of its bands, to a study area; null when nothing is left
+export const clipToArea = (polygon: any, area: any): any => {
+  const features: any[] = polygon.type === 'FeatureCollection' ? polygon.features : [polygon];
+  const clipped = features.flatMap(f => {
+    const part = turf.intersect(turf.featureCollection([f, area]));
+    return part ? [turf.feature(part.geometry, f.properties)] : [];
+  });
+  if (clipped.length === 0) return null;
+  return polygon.type === 'FeatureCollection' ? turf.featureCollection(clipped) : clipped[0];
+};
@@ -1,33 +1,75 @@
+import { GraphData, TransportMode, SpeedProfile, OsmElement, BBox, CoveragePoint } from '../types';
+import {
+  DEFAULT_SPEED_PROFILES,
+  AMENITY_CATEGORIES,
+  OVERPASS_MAX_ATTEMPTS,
+  OVERPASS_QUERY_BLOCK_TILES,
+  OVERPASS_RETRY_DELAY_MS
+} from '../constants';
+import { buildGraphFromElements } from './graphBuilder';
+import {
+  CachedTile,
+  Tile,
+  getTilesForBBox,
+  getTileBBox,
+  getTileForPoint,
+  getTileSpan,
+  getTileKey,
+  getGraphKey,
+  getCachedTiles,
+  putCachedTiles,
+  getCachedGraph,
+  putCachedGraph
+} from './cacheService';
+import { NetworkUnavailableError } from './errors';
+
+// Main instance first, then public mirrors running the same API
+const OVERPASS_ENDPOINTS = [
+  'https://overpass-api.de/api/interpreter',
+  'https://overpass.kumi.systems/api/interpreter',
+  'https://overpass.private.coffee/api/interpreter'
+];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// POST a query, retrying busy (429), failing (5xx) or unreachable servers with exponential
+// backoff before falling back to the next mirror. Other rejections are not retried.
+const postOverpassQuery = async (query: string): Promise<any> => {
+  let lastError = new NetworkUnavailableError('Overpass API error');
+  for (const url of OVERPASS_ENDPOINTS) {
+    for (let attempt = 0; attempt < OVERPASS_MAX_ATTEMPTS; attempt++) {
+      if (attempt > 0) await wait(OVERPASS_RETRY_DELAY_MS * 2 ** (attempt - 1));
+
+      let response: Response;
+      try {
+        response = await fetch(url, { method: 'POST', body: `data=${encodeURIComponent(query)}` });
+      } catch (e) {
+        lastError = new NetworkUnavailableError('Overpass API unreachable', { cause: e });
+        continue;
+      }
+      if (!response.ok) {
+        lastError = new NetworkUnavailableError(`Overpass API error (${response.status})`);
+        if (response.status === 429 || response.status >= 500) continue;
+        throw lastError;
+      }
 
-import { Node, GraphData, Edge, TransportMode } from '../types';
-import { TRANSPORT_SPEEDS } from '../constants';
-
-const OVERPASS_URL = 'https://overpass-api.de/api/interpreter';
-
-// Get distance in meters between two points
-const getDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-  const R = 6371e3; // metres
-  const φ1 = lat1 * Math.PI / 180;
-  const φ2 = lat2 * Math.PI / 180;
-  const Δφ = (lat2 - lat1) * Math.PI / 180;
-  const Δλ = (lon2 - lon1) * Math.PI / 180;
-
-  const a = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-          Math.cos(φ1) * Math.cos(φ2) *
-          Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-  return R * c;
+      // A query that runs out of time or memory still answers 200, with partial data and a remark
+      const data = await response.json();
+      if (!data.remark?.includes('runtime error')) return data;
+      lastError = new NetworkUnavailableError(`Overpass API error: ${data.remark}`);
+    }
+  }
+  throw lastError;
 };
 
-export const fetchRoadNetwork = async (lat: number, lng: number, radiusMeters: number, mode: TransportMode): Promise<GraphData> => {
-  // Rough bounding box for radius
-  const delta = (radiusMeters / 111320) * 1.5; 
-  const bbox = `${lat - delta},${lng - delta},${lat + delta},${lng + delta}`;
+// Query Overpass for all mode-relevant ways and ferry routes in a bbox, with their nodes
+// (tagged, so barriers are kept)
+export const fetchOverpassElements = async (box: BBox, mode: TransportMode): Promise<OsmElement[]> => {
+  const bbox = `${box.minLat},${box.minLng},${box.maxLat},${box.maxLng}`;
   
   // Refined query based on transport mode
   let wayFilter = '["highway"]';
-  if (mode === TransportMode.WALKING) {
+  if (mode === TransportMode.WALKING || mode === TransportMode.TRANSIT) {
     wayFilter = '["highway"]["footway"!~"no"]["access"!~"private"]';
   } else if (mode === TransportMode.CYCLING) {
     wayFilter = '["highway"]["bicycle"!~"no"]["access"!~"private"]';
@@ -39,60 +81,129 @@ export const fetchRoadNetwork = async (lat: number, lng: number, radiusMeters: n
     [out:json][timeout:25];
     (
       way${wayFilter}(${bbox});
+      way["route"="ferry"](${bbox});
     );
     out body;
     >;
-    out skel qt;
+    out body qt;
   `;
 
-  const response = await fetch(OVERPASS_URL, {
-    method: 'POST',
-    body: `data=${encodeURIComponent(query)}`
-  });
+  const data = await postOverpassQuery(query);
+  return data.elements as OsmElement[];
+};
 
-  if (!response.ok) throw new Error('Overpass API error');
+// Query Overpass for amenities of every coverage category in a bbox; areas are reduced to their centre
+export const fetchAmenities = async (box: BBox): Promise<CoveragePoint[]> => {
+  const bbox = `${box.minLat},${box.minLng},${box.maxLat},${box.maxLng}`;
+  const filters = Object.values(AMENITY_CATEGORIES).flatMap(({ tags }) =>
+    Object.entries(tags).map(([key, values]) => `nwr["${key}"~"^(${values.join('|')})$"](${bbox});`));
 
-  const data = await response.json();
-  const nodes = new Map<string, Node>();
-  const adjacency = new Map<string, Edge[]>();
+  const query = `
+    [out:json][timeout:25];
+    (
+      ${filters.join('\n      ')}
+    );
+    out tags center;
+  `;
 
-  // Parse nodes
-  data.elements.forEach((el: any) => {
-    if (el.type === 'node') {
-      nodes.set(el.id.toString(), {
-        id: el.id.toString(),
-        lat: el.lat,
-        lon: el.lon
-      });
-    }
+  const data = await postOverpassQuery(query);
+  return data.elements
+    .map((el: any) => ({ lat: el.lat ?? el.center?.lat, lon: el.lon ?? el.center?.lon, tags: el.tags || {} }))
+    .filter((p: CoveragePoint) => p.lat !== undefined && p.lon !== undefined);
+};
+
+// Split a response into per-tile element lists: a way belongs to every tile holding one of its nodes
+const splitIntoTiles = (elements: OsmElement[], tiles: Tile[], mode: TransportMode): Map<string, OsmElement[]> => {
+  const byTile = new Map<string, OsmElement[]>(tiles.map(t => [getTileKey(t, mode), []]));
+  const nodes = new Map<number, OsmElement>();
+  elements.forEach(el => { if (el.type === 'node') nodes.set(el.id, el); });
+
+  const tileKeyOf = (node: OsmElement) => getTileKey(getTileForPoint(node.lat!, node.lon!), mode);
+
+  elements.forEach(el => {
+    if (el.type !== 'way' || !el.nodes) return;
+    const wayNodes = el.nodes.map(id => nodes.get(id)).filter((n): n is OsmElement => !!n);
+    const keys = new Set(wayNodes.map(tileKeyOf));
+    keys.forEach(key => byTile.get(key)?.push(el, ...wayNodes));
   });
 
-  // Average speed in m/s
-  const speedMS = (TRANSPORT_SPEEDS[mode] * 1000) / 3600;
-
-  // Parse ways and build adjacency
-  data.elements.forEach((el: any) => {
-    if (el.type === 'way' && el.nodes) {
-      for (let i = 0; i < el.nodes.length - 1; i++) {
-        const uId = el.nodes[i].toString();
-        const vId = el.nodes[i + 1].toString();
-        const u = nodes.get(uId);
-        const v = nodes.get(vId);
-
-        if (u && v) {
-          const dist = getDistance(u.lat, u.lon, v.lat, v.lon);
-          const weight = dist / speedMS; // seconds
-
-          // Bidirectional for now (simplification)
-          if (!adjacency.has(uId)) adjacency.set(uId, []);
-          if (!adjacency.has(vId)) adjacency.set(vId, []);
-
-          adjacency.get(uId)!.push({ source: uId, target: vId, weight });
-          adjacency.get(vId)!.push({ source: vId, target: uId, weight });
-        }
-      }
+  return byTile;
+};
+
+// Merge tile element lists, dropping elements repeated across tiles
+const mergeTiles = (tileElements: Iterable<OsmElement[]>): OsmElement[] => {
+  const seen = new Set<string>();
+  const merged: OsmElement[] = [];
+  for (const elements of tileElements) {
+    for (const el of elements) {
+      const key = `${el.type}:${el.id}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.push(el);
     }
+  }
+  return merged;
+};
+
+// Rectangle covered by a set of tiles
+const getTilesBBox = (tiles: Tile[]): BBox => {
+  const boxes = tiles.map(getTileBBox);
+  return {
+    minLat: Math.min(...boxes.map(b => b.minLat)),
+    maxLat: Math.max(...boxes.map(b => b.maxLat)),
+    minLng: Math.min(...boxes.map(b => b.minLng)),
+    maxLng: Math.max(...boxes.map(b => b.maxLng))
+  };
+};
+
+// Group tiles into aligned blocks of at most OVERPASS_QUERY_BLOCK_TILES on a side, so no
+// single query covers more than Overpass answers within its timeout
+const groupIntoBlocks = (tiles: Tile[]): Tile[][] => {
+  const blocks = new Map<string, Tile[]>();
+  tiles.forEach(t => {
+    const key = `${Math.floor(t.x / OVERPASS_QUERY_BLOCK_TILES)}:${Math.floor(t.y / OVERPASS_QUERY_BLOCK_TILES)}`;
+    if (!blocks.has(key)) blocks.set(key, []);
+    blocks.get(key)!.push(t);
   });
+  return [...blocks.values()];
+};
+
+// Road network for every cache tile touching the bbox. Missing tiles are fetched block by
+// block, each cached as soon as it arrives so a failed request keeps the blocks before it.
+// Tiles are also kept in `sessionTiles`, so repeated calls sharing it (a search loading a
+// larger area) reuse them where IndexedDB is unavailable, e.g. in Node.
+export const fetchRoadNetwork = async (
+  bbox: BBox,
+  mode: TransportMode,
+  profile: SpeedProfile = DEFAULT_SPEED_PROFILES[mode],
+  sessionTiles: Map<string, CachedTile> = new Map()
+): Promise<GraphData> => {
+  const tiles = getTilesForBBox(bbox);
+  const bounds = getTilesBBox(tiles);
+
+  // A graph built earlier from the same tiles, mode and profile can be reused as is
+  const graphKey = getGraphKey(tiles, mode, profile);
+  const cachedGraph = await getCachedGraph(graphKey);
+  if (cachedGraph) return { ...cachedGraph, bounds };
+
+  const tileKeys = tiles.map(t => getTileKey(t, mode));
+  const tileElements = await getCachedTiles(tileKeys.filter(k => !sessionTiles.has(k)));
+  tileKeys.forEach(k => { if (sessionTiles.has(k)) tileElements.set(k, sessionTiles.get(k)!); });
+  const missing = tiles.filter(t => !tileElements.has(getTileKey(t, mode)));
+
+  for (const block of groupIntoBlocks(missing)) {
+    // One query over the rectangle spanning the block's missing tiles
+    const span = getTileSpan(block);
+    const fetchedAt = Date.now();
+    const fetched = splitIntoTiles(await fetchOverpassElements(getTilesBBox(span), mode), span, mode);
+    await putCachedTiles(fetched);
+    fetched.forEach((elements, key) => tileElements.set(key, { elements, fetchedAt }));
+  }
+  tileElements.forEach((tile, key) => sessionTiles.set(key, tile));
 
-  return { nodes, adjacency };
+  const used = tileKeys.map(k => tileElements.get(k)).filter(t => !!t);
+  const graph = buildGraphFromElements(mergeTiles(used.map(t => t.elements)), mode, profile);
+  graph.fetchedAt = Math.min(...used.map(t => t.fetchedAt));
+  await putCachedGraph(graphKey, graph);
+  return { ...graph, bounds };
 };
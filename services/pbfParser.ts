@@ -0,0 +1,217 @@
+import { OsmElement, OsmTags } from '../types';
+
+// Minimal OSM PBF reader: decodes nodes (plain and dense) and ways, skips relations.
+// Format reference: https://wiki.openstreetmap.org/wiki/PBF_Format
+
+// Protobuf wire reader over a byte slice. Varints are decoded with arithmetic instead of
+// bit operations so 64-bit OSM ids stay exact up to 2^53.
+class ProtoReader {
+  pos: number;
+
+  constructor(private buf: Uint8Array, start = 0, private end = buf.length) {
+    this.pos = start;
+  }
+
+  get done(): boolean {
+    return this.pos >= this.end;
+  }
+
+  varint(): number {
+    let result = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      byte = this.buf[this.pos++];
+      result += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte >= 0x80);
+    return result;
+  }
+
+  svarint(): number {
+    const n = this.varint();
+    return n % 2 === 1 ? -(n + 1) / 2 : n / 2;
+  }
+
+  bytes(): Uint8Array {
+    const len = this.varint();
+    const out = this.buf.subarray(this.pos, this.pos + len);
+    this.pos += len;
+    return out;
+  }
+
+  // Iterate fields as [fieldNumber, wireType]
+  tag(): [number, number] {
+    const t = this.varint();
+    return [Math.floor(t / 8), t % 8];
+  }
+
+  skip(wireType: number): void {
+    if (wireType === 0) this.varint();
+    else if (wireType === 1) this.pos += 8;
+    else if (wireType === 2) this.pos += this.varint();
+    else if (wireType === 5) this.pos += 4;
+    else throw new Error(`Unsupported protobuf wire type ${wireType}`);
+  }
+
+  packed(read: (r: ProtoReader) => number): number[] {
+    const bytes = this.bytes();
+    const r = new ProtoReader(bytes);
+    const out: number[] = [];
+    while (!r.done) out.push(read(r));
+    return out;
+  }
+}
+
+const textDecoder = new TextDecoder();
+
+// zlib-compressed blob payloads; DecompressionStream exists in browsers, workers and Node 18+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+const readBlob = async (data: Uint8Array): Promise<Uint8Array> => {
+  const r = new ProtoReader(data);
+  while (!r.done) {
+    const [field, wire] = r.tag();
+    if (field === 1) return r.bytes(); // raw
+    if (field === 3) return inflate(r.bytes()); // zlib_data
+    r.skip(wire);
+  }
+  throw new Error('Unsupported PBF blob compression (only raw and zlib are supported)');
+};
+
+const readTags = (keys: number[], vals: number[], strings: string[]): OsmTags | undefined => {
+  if (keys.length === 0) return undefined;
+  const tags: OsmTags = {};
+  keys.forEach((k, i) => { tags[strings[k]] = strings[vals[i]]; });
+  return tags;
+};
+
+const readPrimitiveBlock = (data: Uint8Array, elements: OsmElement[]) => {
+  const r = new ProtoReader(data);
+  let strings: string[] = [];
+  const groups: Uint8Array[] = [];
+  let granularity = 100;
+  let latOffset = 0;
+  let lonOffset = 0;
+
+  while (!r.done) {
+    const [field, wire] = r.tag();
+    if (field === 1) {
+      const st = new ProtoReader(r.bytes());
+      strings = [];
+      while (!st.done) {
+        const [f, w] = st.tag();
+        if (f === 1) strings.push(textDecoder.decode(st.bytes()));
+        else st.skip(w);
+      }
+    } else if (field === 2) groups.push(r.bytes());
+    else if (field === 17) granularity = r.varint();
+    else if (field === 19) latOffset = r.varint();
+    else if (field === 20) lonOffset = r.varint();
+    else r.skip(wire);
+  }
+
+  const toDeg = (offset: number, value: number) => 1e-9 * (offset + granularity * value);
+
+  for (const groupData of groups) {
+    const g = new ProtoReader(groupData);
+    while (!g.done) {
+      const [field, wire] = g.tag();
+
+      if (field === 1) {
+        // Plain node
+        const n = new ProtoReader(g.bytes());
+        let id = 0, lat = 0, lon = 0;
+        let keys: number[] = [], vals: number[] = [];
+        while (!n.done) {
+          const [f, w] = n.tag();
+          if (f === 1) id = n.svarint();
+          else if (f === 2) keys = n.packed(x => x.varint());
+          else if (f === 3) vals = n.packed(x => x.varint());
+          else if (f === 8) lat = n.svarint();
+          else if (f === 9) lon = n.svarint();
+          else n.skip(w);
+        }
+        elements.push({ type: 'node', id, lat: toDeg(latOffset, lat), lon: toDeg(lonOffset, lon), tags: readTags(keys, vals, strings) });
+      } else if (field === 2) {
+        // Dense nodes: delta-coded ids and coordinates
+        const d = new ProtoReader(g.bytes());
+        let ids: number[] = [], lats: number[] = [], lons: number[] = [], keysVals: number[] = [];
+        while (!d.done) {
+          const [f, w] = d.tag();
+          if (f === 1) ids = d.packed(x => x.svarint());
+          else if (f === 8) lats = d.packed(x => x.svarint());
+          else if (f === 9) lons = d.packed(x => x.svarint());
+          else if (f === 10) keysVals = d.packed(x => x.varint());
+          else d.skip(w);
+        }
+        let id = 0, lat = 0, lon = 0, kv = 0;
+        for (let i = 0; i < ids.length; i++) {
+          id += ids[i];
+          lat += lats[i];
+          lon += lons[i];
+          // Tags are k,v string indexes per node, each node's list terminated by 0
+          let tags: OsmTags | undefined;
+          while (kv < keysVals.length && keysVals[kv] !== 0) {
+            tags = tags || {};
+            tags[strings[keysVals[kv]]] = strings[keysVals[kv + 1]];
+            kv += 2;
+          }
+          kv++;
+          elements.push({ type: 'node', id, lat: toDeg(latOffset, lat), lon: toDeg(lonOffset, lon), tags });
+        }
+      } else if (field === 3) {
+        // Way with delta-coded node refs
+        const w = new ProtoReader(g.bytes());
+        let id = 0;
+        let keys: number[] = [], vals: number[] = [], refs: number[] = [];
+        while (!w.done) {
+          const [f, wt] = w.tag();
+          if (f === 1) id = w.varint();
+          else if (f === 2) keys = w.packed(x => x.varint());
+          else if (f === 3) vals = w.packed(x => x.varint());
+          else if (f === 8) refs = w.packed(x => x.svarint());
+          else w.skip(wt);
+        }
+        let ref = 0;
+        const nodes = refs.map(delta => (ref += delta));
+        elements.push({ type: 'way', id, nodes, tags: readTags(keys, vals, strings) });
+      } else {
+        g.skip(wire);
+      }
+    }
+  }
+};
+
+export const parseOsmPbf = async (buffer: ArrayBuffer): Promise<OsmElement[]> => {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const elements: OsmElement[] = [];
+  let pos = 0;
+
+  while (pos < bytes.length) {
+    const headerLength = view.getUint32(pos);
+    pos += 4;
+
+    const header = new ProtoReader(bytes, pos, pos + headerLength);
+    let type = '';
+    let dataSize = 0;
+    while (!header.done) {
+      const [field, wire] = header.tag();
+      if (field === 1) type = textDecoder.decode(header.bytes());
+      else if (field === 3) dataSize = header.varint();
+      else header.skip(wire);
+    }
+    pos += headerLength;
+
+    const blob = bytes.subarray(pos, pos + dataSize);
+    pos += dataSize;
+
+    if (type === 'OSMData') readPrimitiveBlock(await readBlob(blob), elements);
+  }
+
+  return elements;
+};
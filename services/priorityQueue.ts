@@ -0,0 +1,57 @@
+// Binary min-heap keyed by numeric priority
+export class MinHeap<T> {
+  private keys: number[] = [];
+  private values: T[] = [];
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  push(key: number, value: T): void {
+    this.keys.push(key);
+    this.values.push(value);
+    this.siftUp(this.keys.length - 1);
+  }
+
+  // Remove and return the entry with the smallest key
+  pop(): [number, T] | undefined {
+    if (this.keys.length === 0) return undefined;
+    const top: [number, T] = [this.keys[0], this.values[0]];
+    const lastKey = this.keys.pop()!;
+    const lastValue = this.values.pop()!;
+    if (this.keys.length > 0) {
+      this.keys[0] = lastKey;
+      this.values[0] = lastValue;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  private siftUp(i: number): void {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.keys[parent] <= this.keys[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  private siftDown(i: number): void {
+    const n = this.keys.length;
+    while (true) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < n && this.keys[left] < this.keys[smallest]) smallest = left;
+      if (right < n && this.keys[right] < this.keys[smallest]) smallest = right;
+      if (smallest === i) break;
+      this.swap(i, smallest);
+      i = smallest;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+    [this.values[a], this.values[b]] = [this.values[b], this.values[a]];
+  }
+}
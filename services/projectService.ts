@@ -0,0 +1,71 @@
+import { IsochroneParams, ProjectSession, TransportMode } from '../types';
+import { BASEMAPS } from '../constants';
+import { getDefaultProfiles } from './speedProfileService';
+
+const PROJECT_FORMAT = 'nusa-isochrone-project';
+const PROJECT_VERSION = 1;
+
+export interface UrlState {
+  poi?: [number, number];
+  mode?: TransportMode;
+  minutes?: number;
+  bands?: number[];
+  basemap?: string;
+}
+
+// Shareable view state as a query string, e.g. ?lat=-6.2&lng=106.8&mode=walking&min=15&base=OpenStreetMap
+export const encodeUrlState = (params: IsochroneParams, poi: [number, number] | null, basemap: string): string => {
+  const query = new URLSearchParams();
+  if (poi) {
+    query.set('lat', poi[0].toFixed(6));
+    query.set('lng', poi[1].toFixed(6));
+  }
+  query.set('mode', params.mode);
+  query.set('min', params.bands && params.bands.length > 1 ? params.bands.join(',') : `${params.minutes}`);
+  if (basemap !== BASEMAPS[0].name) query.set('base', basemap);
+  return `?${query.toString()}`;
+};
+
+// Inverse of encodeUrlState; anything missing or invalid is left out
+export const decodeUrlState = (search: string): UrlState => {
+  const query = new URLSearchParams(search);
+  const state: UrlState = {};
+
+  const lat = parseFloat(query.get('lat') ?? '');
+  const lng = parseFloat(query.get('lng') ?? '');
+  if (Number.isFinite(lat) && Number.isFinite(lng)) state.poi = [lat, lng];
+
+  const mode = query.get('mode');
+  if (Object.values(TransportMode).includes(mode as TransportMode)) state.mode = mode as TransportMode;
+
+  const minutes = (query.get('min') ?? '').split(',').map(Number).filter(m => m > 0);
+  if (minutes.length > 1) {
+    state.bands = minutes.sort((a, b) => a - b);
+    state.minutes = state.bands[state.bands.length - 1];
+  } else if (minutes.length === 1) {
+    state.minutes = minutes[0];
+  }
+
+  const basemap = query.get('base');
+  if (basemap && BASEMAPS.some(b => b.name === basemap)) state.basemap = basemap;
+  return state;
+};
+
+export const serializeProject = (session: ProjectSession): string =>
+  JSON.stringify({ format: PROJECT_FORMAT, version: PROJECT_VERSION, savedAt: new Date().toISOString(), ...session });
+
+export const isProjectFile = (json: any): boolean => json?.format === PROJECT_FORMAT;
+
+export const parseProject = (json: any): ProjectSession => {
+  if (!isProjectFile(json)) throw new Error('Not a NusaIsochrone project file');
+  if (json.version > PROJECT_VERSION) throw new Error(`Project version ${json.version} is newer than this app supports`);
+  if (!json.params || !Array.isArray(json.history) || !json.speedProfiles) throw new Error('Project file is incomplete');
+  return {
+    params: json.params,
+    activePoi: json.activePoi ?? null,
+    basemap: BASEMAPS.some(b => b.name === json.basemap) ? json.basemap : BASEMAPS[0].name,
+    // Modes added after the project was saved get default profiles
+    speedProfiles: { ...getDefaultProfiles(), ...json.speedProfiles },
+    history: json.history
+  };
+};
@@ -0,0 +1,101 @@
+import {
+  AnalysisLayers,
+  Edge,
+  GraphData,
+  IsochroneParams,
+  NetworkSource,
+  RouteResult,
+  SpeedProfile,
+  TransportMode,
+  TravelDirection
+} from '../types';
+import {
+  attachOrigin,
+  calculateTravelTimesFromSeeds,
+  getCutoffs,
+  getNetworkRequest,
+  getSpatialIndex,
+  ORIGIN_NODE_ID,
+  prepareGraph,
+  ProgressCallback,
+  searchExpandingNetwork
+} from './isochroneService';
+import { createOverpassSource } from './networkSource';
+import { findNearestNode } from './spatialIndex';
+import { getDistance } from './graphBuilder';
+
+// Walk the predecessor edges back from a settled node to the search origin
+export const tracePath = (predecessors: Map<string, Edge>, targetId: string): Edge[] => {
+  const path: Edge[] = [];
+  let edge = predecessors.get(targetId);
+  while (edge) {
+    path.push(edge);
+    edge = predecessors.get(edge.source);
+  }
+  return path.reverse();
+};
+
+// Totals and a per-highway-class breakdown of a path, with its line in travel order
+export const summarisePath = (graph: GraphData, path: Edge[], reversed: boolean): Omit<RouteResult, 'destination'> => {
+  const ordered = reversed ? [...path].reverse().map(e => ({ ...e, source: e.target, target: e.source })) : path;
+  const byHighway: RouteResult['byHighway'] = {};
+  const coordinates: [number, number][] = [];
+  let seconds = 0;
+  let distanceMeters = 0;
+
+  ordered.forEach((edge, i) => {
+    const from = graph.nodes.get(edge.source)!;
+    const to = graph.nodes.get(edge.target)!;
+    if (i === 0) coordinates.push([from.lon, from.lat]);
+    coordinates.push([to.lon, to.lat]);
+
+    const distance = edge.distance ?? getDistance(from.lat, from.lon, to.lat, to.lon);
+    const highway = edge.highway ?? 'unknown';
+    byHighway[highway] = byHighway[highway] || { seconds: 0, distanceMeters: 0 };
+    byHighway[highway].seconds += edge.weight;
+    byHighway[highway].distanceMeters += distance;
+    seconds += edge.weight;
+    distanceMeters += distance;
+  });
+
+  return { coordinates, seconds, distanceMeters, byHighway };
+};
+
+// Rebuild a result's network and trace the fastest path between its origin and a
+// destination inside it. Inbound results are traced from the destination to the origin.
+export const runRoutePipeline = async (
+  params: IsochroneParams,
+  profile: SpeedProfile,
+  destination: { lat: number; lng: number },
+  onProgress?: ProgressCallback,
+  source: NetworkSource = createOverpassSource(),
+  layers: AnalysisLayers = { transit: null, observedSpeeds: null, elevation: null }
+): Promise<RouteResult> => {
+  if (params.mode === TransportMode.TRANSIT) throw new Error('Route inspection is not available for transit');
+
+  const maxTimeSeconds = Math.max(...getCutoffs(params)) * 60;
+  const request = getNetworkRequest(params, profile, maxTimeSeconds);
+  const { result: { graph, origin, times, predecessors } } = await searchExpandingNetwork(request, source, maxTimeSeconds, loaded => {
+    onProgress?.('Tracing route', 0.5);
+    const graph = prepareGraph(loaded, params, profile, layers);
+    const origin = attachOrigin(graph, params.lat, params.lng);
+    if (!origin) throw new Error('No roads near the origin');
+    const predecessors = new Map<string, Edge>();
+    const times = calculateTravelTimesFromSeeds(origin.graph, new Map([[ORIGIN_NODE_ID, origin.seconds]]), maxTimeSeconds, undefined, predecessors);
+    return { graph, origin, times, predecessors };
+  }, onProgress);
+  const target = findNearestNode(getSpatialIndex(graph), destination.lat, destination.lng);
+  if (!target || !times.has(target.id)) throw new Error('The destination is outside this isochrone');
+
+  const inbound = params.direction === TravelDirection.INBOUND;
+  const route = summarisePath(origin.graph, tracePath(predecessors, target.id), inbound);
+
+  // The walk between the clicked origin and the road it was snapped to
+  if (inbound) route.coordinates.push([params.lng, params.lat]);
+  else route.coordinates.unshift([params.lng, params.lat]);
+  route.byHighway.connector = { seconds: origin.seconds, distanceMeters: origin.distanceMeters };
+  route.seconds += origin.seconds;
+  route.distanceMeters += origin.distanceMeters;
+
+  return { ...route, destination: [destination.lat, destination.lng] };
+};
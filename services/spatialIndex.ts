@@ -0,0 +1,142 @@
+import { Node, SegmentIndex, SpatialIndex } from '../types';
+
+const cellKey = (x: number, y: number) => `${x}:${y}`;
+const METERS_PER_DEGREE = 111320;
+
+export const buildSpatialIndex = (nodes: Iterable<Node>, cellSize = 0.005): SpatialIndex => {
+  const cells = new Map<string, Node[]>();
+  for (const node of nodes) {
+    const key = cellKey(Math.floor(node.lon / cellSize), Math.floor(node.lat / cellSize));
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = [];
+      cells.set(key, cell);
+    }
+    cell.push(node);
+  }
+  return { cellSize, cells };
+};
+
+// Visit the grid ring by ring around (lat, lng) until `visit` has found something and no
+// further ring can hold anything closer. Distances are in meters.
+const searchRings = <T>(
+  cells: Map<string, T[]>,
+  cellSize: number,
+  lat: number,
+  lng: number,
+  maxRings: number,
+  visit: (item: T) => void,
+  getBestMeters: () => number
+) => {
+  const cx = Math.floor(lng / cellSize);
+  const cy = Math.floor(lat / cellSize);
+  // A ring is at least this far away along its narrowest (east-west) side
+  const ringMeters = cellSize * METERS_PER_DEGREE * Math.cos((lat * Math.PI) / 180);
+
+  for (let ring = 0; ring <= maxRings; ring++) {
+    for (let x = cx - ring; x <= cx + ring; x++) {
+      for (let y = cy - ring; y <= cy + ring; y++) {
+        // Only visit the perimeter of the current ring
+        if (Math.abs(x - cx) !== ring && Math.abs(y - cy) !== ring) continue;
+        cells.get(cellKey(x, y))?.forEach(visit);
+      }
+    }
+    if (getBestMeters() <= ring * ringMeters) break;
+  }
+};
+
+// Equirectangular offset in meters; accurate enough at snapping distances
+const toLocalMeters = (lat: number, lng: number, originLat: number, originLng: number): [number, number] => [
+  (lng - originLng) * METERS_PER_DEGREE * Math.cos((originLat * Math.PI) / 180),
+  (lat - originLat) * METERS_PER_DEGREE
+];
+
+export const findNearestNode = (index: SpatialIndex, lat: number, lng: number, maxRings = 200): Node | null => {
+  if (index.cells.size === 0) return null;
+
+  let best: Node | null = null;
+  let bestMeters = Infinity;
+  searchRings(index.cells, index.cellSize, lat, lng, maxRings, node => {
+    const [dx, dy] = toLocalMeters(node.lat, node.lon, lat, lng);
+    const d = Math.hypot(dx, dy);
+    if (d < bestMeters) {
+      bestMeters = d;
+      best = node;
+    }
+  }, () => bestMeters);
+
+  return best;
+};
+
+// Every undirected segment is listed in each cell its bounding box touches
+export const buildSegmentIndex = (
+  nodes: Map<string, Node>,
+  adjacency: Map<string, { target: string }[]>,
+  cellSize = 0.005
+): SegmentIndex => {
+  const cells = new Map<string, [string, string][]>();
+  const seen = new Set<string>();
+  adjacency.forEach((edges, uId) => {
+    for (const { target: vId } of edges) {
+      const key = uId < vId ? `${uId}|${vId}` : `${vId}|${uId}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const u = nodes.get(uId);
+      const v = nodes.get(vId);
+      if (!u || !v) continue;
+      for (let x = Math.floor(Math.min(u.lon, v.lon) / cellSize); x <= Math.floor(Math.max(u.lon, v.lon) / cellSize); x++) {
+        for (let y = Math.floor(Math.min(u.lat, v.lat) / cellSize); y <= Math.floor(Math.max(u.lat, v.lat) / cellSize); y++) {
+          const cell = cells.get(cellKey(x, y));
+          if (cell) cell.push([uId, vId]);
+          else cells.set(cellKey(x, y), [[uId, vId]]);
+        }
+      }
+    }
+  });
+  return { cellSize, cells };
+};
+
+export interface SegmentSnap {
+  from: string;
+  to: string;
+  fraction: number; // Position of the snapped point along from -> to
+  lat: number;
+  lon: number;
+  distanceMeters: number; // From the query point to the snapped point
+}
+
+// Closest point on any segment, by perpendicular projection
+export const findNearestSegment = (
+  index: SegmentIndex,
+  nodes: Map<string, Node>,
+  lat: number,
+  lng: number,
+  maxRings = 200
+): SegmentSnap | null => {
+  if (index.cells.size === 0) return null;
+
+  let best: SegmentSnap | null = null;
+  let bestMeters = Infinity;
+  searchRings(index.cells, index.cellSize, lat, lng, maxRings, ([fromId, toId]) => {
+    const u = nodes.get(fromId)!;
+    const v = nodes.get(toId)!;
+    const [ux, uy] = toLocalMeters(u.lat, u.lon, lat, lng);
+    const [vx, vy] = toLocalMeters(v.lat, v.lon, lat, lng);
+    const lengthSq = (vx - ux) ** 2 + (vy - uy) ** 2;
+    const fraction = lengthSq > 0 ? Math.min(1, Math.max(0, -(ux * (vx - ux) + uy * (vy - uy)) / lengthSq)) : 0;
+    const d = Math.hypot(ux + (vx - ux) * fraction, uy + (vy - uy) * fraction);
+    if (d < bestMeters) {
+      bestMeters = d;
+      best = {
+        from: fromId,
+        to: toId,
+        fraction,
+        lat: u.lat + (v.lat - u.lat) * fraction,
+        lon: u.lon + (v.lon - u.lon) * fraction,
+        distanceMeters: d
+      };
+    }
+  }, () => bestMeters);
+
+  return best;
+};
@@ -0,0 +1,80 @@
+import { OsmTags, SpeedProfile, TransportMode } from '../types';
+import { DEFAULT_SPEED_PROFILES, FERRY_SPEED_KMH } from '../constants';
+
+const PRESETS_STORAGE_KEY = 'nusa-isochrone:speed-presets';
+
+// Parse an OSM maxspeed value ("50", "30 mph", "ID:urban") into km/h
+export const parseMaxspeed = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const match = value.match(/^(\d+(?:\.\d+)?)\s*(mph|km\/h|kmh)?$/);
+  if (!match) return null;
+  const speed = parseFloat(match[1]);
+  return match[2] === 'mph' ? speed * 1.609 : speed;
+};
+
+// Travel speed in km/h for a way under the given profile; 0 means the way is not usable
+export const getWaySpeed = (tags: OsmTags, profile: SpeedProfile): number => {
+  // The boat sets the pace, whatever the traveller's mode
+  if (tags.highway === 'ferry') return profile.highwaySpeeds.ferry ?? FERRY_SPEED_KMH;
+  let speed = profile.highwaySpeeds[tags.highway] ?? profile.defaultSpeed;
+  if (speed <= 0) return 0;
+
+  // A posted limit only lowers the class speed, never raises it
+  const maxspeed = parseMaxspeed(tags.maxspeed);
+  if (maxspeed) {
+    speed = Math.min(speed, profile.maxspeedFactor > 0 ? maxspeed * profile.maxspeedFactor : maxspeed);
+  }
+
+  if (tags.surface && profile.surfaceFactors[tags.surface] !== undefined) {
+    speed *= profile.surfaceFactors[tags.surface];
+  }
+
+  if (tags.lanes === '1') speed *= profile.singleLaneFactor;
+
+  return speed;
+};
+
+// Travel time in seconds over a distance in metres
+export const getTravelTime = (distanceMeters: number, speedKmh: number): number => {
+  return distanceMeters / ((speedKmh * 1000) / 3600);
+};
+
+export const cloneProfile = (profile: SpeedProfile): SpeedProfile => ({
+  ...profile,
+  highwaySpeeds: { ...profile.highwaySpeeds },
+  surfaceFactors: { ...profile.surfaceFactors },
+  congestion: profile.congestion && {
+    weekday: { ...profile.congestion.weekday },
+    weekend: { ...profile.congestion.weekend }
+  }
+});
+
+export const getDefaultProfiles = (): Record<TransportMode, SpeedProfile> => ({
+  [TransportMode.WALKING]: cloneProfile(DEFAULT_SPEED_PROFILES[TransportMode.WALKING]),
+  [TransportMode.CYCLING]: cloneProfile(DEFAULT_SPEED_PROFILES[TransportMode.CYCLING]),
+  [TransportMode.DRIVING]: cloneProfile(DEFAULT_SPEED_PROFILES[TransportMode.DRIVING]),
+  [TransportMode.TRANSIT]: cloneProfile(DEFAULT_SPEED_PROFILES[TransportMode.TRANSIT])
+});
+
+// Named presets persisted in localStorage
+export const loadSpeedPresets = (): SpeedProfile[] => {
+  try {
+    const raw = localStorage.getItem(PRESETS_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveSpeedPreset = (profile: SpeedProfile): SpeedProfile[] => {
+  const presets = loadSpeedPresets().filter(p => !(p.name === profile.name && p.mode === profile.mode));
+  presets.push(cloneProfile(profile));
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
+
+export const deleteSpeedPreset = (name: string, mode: TransportMode): SpeedProfile[] => {
+  const presets = loadSpeedPresets().filter(p => !(p.name === name && p.mode === mode));
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  return presets;
+};
@@ -0,0 +1,153 @@
+import * as turf from '@turf/turf';
+import {
+  AmenityCategory,
+  CoveragePoint,
+  IsochroneResult,
+  IsochroneStats,
+  OsmElement,
+  PopulationLayer
+} from '../types';
+import { AMENITY_CATEGORIES, POPULATION_FIELDS } from '../constants';
+import { fetchAmenities } from './overpassService';
+import { parseCsv } from './batchService';
+
+export const getAmenityCategory = (tags: Record<string, string>): AmenityCategory | null => {
+  for (const [category, { tags: match }] of Object.entries(AMENITY_CATEGORIES)) {
+    if (Object.entries(match).some(([key, values]) => values.includes(tags[key]))) {
+      return category as AmenityCategory;
+    }
+  }
+  return null;
+};
+
+// Amenity points contained in a local road extract (tagged nodes only)
+export const getExtractAmenities = (elements: OsmElement[]): CoveragePoint[] =>
+  elements
+    .filter(el => el.type === 'node' && el.tags && getAmenityCategory(el.tags) && el.lat !== undefined)
+    .map(el => ({ lat: el.lat!, lon: el.lon!, tags: el.tags! }));
+
+// Amenity points from an uploaded GeoJSON layer, with feature properties as OSM tags
+export const parseAmenityLayer = (geojson: any): CoveragePoint[] => {
+  const features = geojson.type === 'FeatureCollection' ? geojson.features : [geojson];
+  return features
+    .filter((f: any) => f?.geometry)
+    .map((f: any) => {
+      const [lon, lat] = f.geometry.type === 'Point' ? f.geometry.coordinates : turf.centroid(f).geometry.coordinates;
+      const tags: Record<string, string> = {};
+      Object.entries(f.properties || {}).forEach(([k, v]) => { if (v !== null && v !== undefined) tags[k] = String(v); });
+      return { lat, lon, tags };
+    })
+    .filter((p: CoveragePoint) => getAmenityCategory(p.tags));
+};
+
+const findPopulationField = (properties: Record<string, any>) =>
+  Object.keys(properties).find(k => POPULATION_FIELDS.includes(k.toLowerCase()));
+
+// Normalise an uploaded population grid or point layer (GeoJSON or lat/lng CSV)
+export const parsePopulationLayer = (name: string, content: string): PopulationLayer => {
+  let features: any[];
+  if (/\.csv$/i.test(name)) {
+    features = parseCsv(content).map(row => {
+      const lat = parseFloat(row.lat ?? row.latitude ?? row.y);
+      const lon = parseFloat(row.lng ?? row.lon ?? row.longitude ?? row.x);
+      return turf.point([lon, lat], row);
+    }).filter(f => Number.isFinite(f.geometry.coordinates[0]) && Number.isFinite(f.geometry.coordinates[1]));
+  } else {
+    const geojson = JSON.parse(content);
+    features = geojson.type === 'FeatureCollection' ? geojson.features : [geojson];
+  }
+
+  const normalised = features
+    .filter(f => f?.geometry && ['Point', 'Polygon', 'MultiPolygon'].includes(f.geometry.type))
+    .map(f => {
+      const field = findPopulationField(f.properties || {});
+      const population = field ? parseFloat(f.properties[field]) : NaN;
+      return { ...f, properties: { population } };
+    })
+    .filter(f => Number.isFinite(f.properties.population));
+
+  if (normalised.length === 0) {
+    throw new Error(`No population values found. Expected a property named one of: ${POPULATION_FIELDS.join(', ')}`);
+  }
+  return { name, features: normalised };
+};
+
+// Polygon features of a result, merged into one area so overlaps count once
+export const getCoverageArea = (result: IsochroneResult): any => {
+  const polygon = result.polygon;
+  const features = (polygon.type === 'FeatureCollection' ? polygon.features : [polygon])
+    .filter((f: any) => ['Polygon', 'MultiPolygon'].includes(f?.geometry?.type));
+  if (features.length === 0) return null;
+  if (features.length === 1) return features[0];
+  try {
+    return turf.union(turf.featureCollection(features)) ?? features[0];
+  } catch (e) {
+    return features[0];
+  }
+};
+
+export const countAmenities = (area: any, points: CoveragePoint[]): Record<AmenityCategory, number> => {
+  const counts: Record<AmenityCategory, number> = { schools: 0, hospitals: 0, markets: 0, transit_stops: 0 };
+  const [minX, minY, maxX, maxY] = turf.bbox(area);
+  for (const p of points) {
+    if (p.lon < minX || p.lon > maxX || p.lat < minY || p.lat > maxY) continue;
+    const category = getAmenityCategory(p.tags);
+    if (category && turf.booleanPointInPolygon([p.lon, p.lat], area)) counts[category]++;
+  }
+  return counts;
+};
+
+// Population inside an area; grid cells contribute in proportion to their overlapping area
+export const sumPopulation = (area: any, layer: PopulationLayer): number => {
+  const [minX, minY, maxX, maxY] = turf.bbox(area);
+  let total = 0;
+
+  for (const feature of layer.features) {
+    const [fMinX, fMinY, fMaxX, fMaxY] = turf.bbox(feature);
+    if (fMaxX < minX || fMinX > maxX || fMaxY < minY || fMinY > maxY) continue;
+
+    if (feature.geometry.type === 'Point') {
+      if (turf.booleanPointInPolygon(feature.geometry.coordinates, area)) total += feature.properties.population;
+      continue;
+    }
+
+    try {
+      const overlap = turf.intersect(turf.featureCollection([area, feature]));
+      if (overlap) total += feature.properties.population * (turf.area(overlap) / turf.area(feature));
+    } catch (e) {
+      // Invalid cell geometry; skip it rather than fail the whole result
+    }
+  }
+
+  return total;
+};
+
+export const computeIsochroneStats = async (
+  result: IsochroneResult,
+  options: {
+    roadLengthKm?: number;
+    amenities?: CoveragePoint[]; // Local amenity source; Overpass is queried when absent
+    population?: PopulationLayer | null;
+  }
+): Promise<IsochroneStats | null> => {
+  const area = getCoverageArea(result);
+  if (!area) return null;
+
+  let amenityPoints = options.amenities;
+  if (!amenityPoints) {
+    const [minLng, minLat, maxLng, maxLat] = turf.bbox(area);
+    try {
+      amenityPoints = await fetchAmenities({ minLat, maxLat, minLng, maxLng });
+    } catch (e) {
+      console.warn('Amenity query failed', e);
+      amenityPoints = [];
+    }
+  }
+
+  return {
+    areaKm2: turf.area(area) / 1e6,
+    roadLengthKm: options.roadLengthKm,
+    amenities: countAmenities(area, amenityPoints),
+    population: options.population ? sumPopulation(area, options.population) : undefined
+  };
+};
@@ -0,0 +1,93 @@
+import { ReachedNode, TravelTimeSurface } from '../types';
+import {
+  BAND_COLOR_RAMP,
+  SURFACE_ACCESS_METERS,
+  SURFACE_CELL_METERS,
+  SURFACE_MAX_CELLS,
+  TRANSPORT_SPEEDS
+} from '../constants';
+
+const METERS_PER_DEGREE = 111320;
+
+// Interpolate node travel times onto a grid: each cell takes the fastest node time plus
+// the walk from that node, so the surface fades out between roads instead of smearing
+export const buildTravelTimeSurface = (nodes: ReachedNode[], maxTimeSeconds: number): TravelTimeSurface | null => {
+  const reached = nodes.filter(n => n.seconds <= maxTimeSeconds);
+  if (reached.length === 0) return null;
+
+  // One pass, not Math.min(...): large results have more nodes than a call takes arguments
+  let minLat = Infinity, maxLat = -Infinity, minLon = Infinity, maxLon = -Infinity;
+  for (const { lat, lon } of reached) {
+    if (lat < minLat) minLat = lat;
+    if (lat > maxLat) maxLat = lat;
+    if (lon < minLon) minLon = lon;
+    if (lon > maxLon) maxLon = lon;
+  }
+  const midLat = (minLat + maxLat) / 2;
+  const lonScale = Math.cos((midLat * Math.PI) / 180);
+  const padLat = SURFACE_ACCESS_METERS / METERS_PER_DEGREE;
+  const padLon = padLat / lonScale;
+
+  const west = minLon - padLon;
+  const east = maxLon + padLon;
+  const south = minLat - padLat;
+  const north = maxLat + padLat;
+  const cellSize = Math.max(
+    SURFACE_CELL_METERS / METERS_PER_DEGREE,
+    Math.sqrt(((east - west) * (north - south)) / SURFACE_MAX_CELLS)
+  );
+  const cols = Math.ceil((east - west) / cellSize);
+  const rows = Math.ceil((north - south) / cellSize);
+
+  const walkMS = (TRANSPORT_SPEEDS.walking * 1000) / 3600;
+  const seconds = new Float32Array(cols * rows).fill(Infinity);
+  const reachCols = Math.ceil(padLon / cellSize);
+  const reachRows = Math.ceil(padLat / cellSize);
+
+  for (const node of reached) {
+    const c0 = Math.floor((node.lon - west) / cellSize);
+    const r0 = Math.floor((north - node.lat) / cellSize);
+    for (let r = Math.max(0, r0 - reachRows); r <= Math.min(rows - 1, r0 + reachRows); r++) {
+      const dy = (north - (r + 0.5) * cellSize - node.lat) * METERS_PER_DEGREE;
+      for (let c = Math.max(0, c0 - reachCols); c <= Math.min(cols - 1, c0 + reachCols); c++) {
+        const dx = (west + (c + 0.5) * cellSize - node.lon) * METERS_PER_DEGREE * lonScale;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        if (dist > SURFACE_ACCESS_METERS) continue;
+        const t = node.seconds + dist / walkMS;
+        const i = r * cols + c;
+        if (t < seconds[i]) seconds[i] = t;
+      }
+    }
+  }
+
+  const minutes = new Float32Array(cols * rows);
+  seconds.forEach((t, i) => { minutes[i] = t <= maxTimeSeconds ? t / 60 : NaN; });
+  return { west, north, cellSize, cols, rows, minutes, maxMinutes: maxTimeSeconds / 60 };
+};
+
+export const getSurfaceBounds = (surface: TravelTimeSurface): [[number, number], [number, number]] => [
+  [surface.north - surface.rows * surface.cellSize, surface.west],
+  [surface.north, surface.west + surface.cols * surface.cellSize]
+];
+
+// Minutes at a location, or null outside the reached area
+export const getSurfaceValue = (surface: TravelTimeSurface, lat: number, lng: number): number | null => {
+  const c = Math.floor((lng - surface.west) / surface.cellSize);
+  const r = Math.floor((surface.north - lat) / surface.cellSize);
+  if (c < 0 || r < 0 || c >= surface.cols || r >= surface.rows) return null;
+  const value = surface.minutes[r * surface.cols + c];
+  return Number.isNaN(value) ? null : value;
+};
+
+const hexToRgb = (hex: string): [number, number, number] =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+
+const RAMP = BAND_COLOR_RAMP.map(hexToRgb);
+
+// Continuous version of the band ramp; fraction 0 is the origin, 1 the cutoff
+export const getRampColor = (fraction: number): [number, number, number] => {
+  const x = Math.min(Math.max(fraction, 0), 1) * (RAMP.length - 1);
+  const i = Math.min(Math.floor(x), RAMP.length - 2);
+  const f = x - i;
+  return [0, 1, 2].map(k => Math.round(RAMP[i][k] + (RAMP[i + 1][k] - RAMP[i][k]) * f)) as [number, number, number];
+};
@@ -0,0 +1,88 @@
+import { CongestionProfile, Edge, GraphData, ObservedSpeeds, SpeedProfile } from '../types';
+import { parseCsv } from './batchService';
+import { Departure, isWeekend } from './departureService';
+
+const WAY_ID_COLUMNS = ['way_id', 'osm_id', 'wayid', 'id'];
+const SPEED_COLUMNS = ['speed_kmh', 'speed', 'kmh', 'avg_speed', 'kecepatan'];
+const HOUR_COLUMNS = ['hour', 'jam'];
+
+// Link roads share the congestion of their main class
+const getRoadClass = (highway: string) => highway.replace(/_link$/, '');
+
+export const getCongestionFactor = (congestion: CongestionProfile, highway: string | undefined, departure: Departure): number => {
+  const table = isWeekend(departure) ? congestion.weekend : congestion.weekday;
+  const factors = (highway && table[getRoadClass(highway)]) || table['*'];
+  return factors?.[departure.hour] ?? 1;
+};
+
+// CSV of observed speeds: a way id column, a km/h column and optionally an hour (0-23)
+// column. Rows without an hour apply to every hour not observed explicitly.
+export const parseObservedSpeedsCsv = (name: string, text: string): ObservedSpeeds => {
+  const rows = parseCsv(text);
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+  const find = (candidates: string[]) => headers.find(h => candidates.includes(h.toLowerCase()));
+  const idCol = find(WAY_ID_COLUMNS);
+  const speedCol = find(SPEED_COLUMNS);
+  const hourCol = find(HOUR_COLUMNS);
+  if (!idCol || !speedCol) throw new Error('Speed CSV needs a way id column (e.g. "way_id") and a speed column (e.g. "speed_kmh")');
+
+  const hourly: Record<string, (number | null)[]> = {};
+  const allDay: Record<string, number> = {};
+  for (const row of rows) {
+    const id = row[idCol].replace(/^way\//, '');
+    const speed = parseFloat(row[speedCol]);
+    if (!id || !(speed > 0)) continue;
+    const hour = hourCol ? parseInt(row[hourCol], 10) : NaN;
+    if (hour >= 0 && hour < 24) {
+      hourly[id] = hourly[id] || Array(24).fill(null);
+      hourly[id][hour] = speed;
+    } else {
+      allDay[id] = speed;
+    }
+  }
+
+  const speeds: Record<string, (number | null)[]> = { ...hourly };
+  for (const [id, speed] of Object.entries(allDay)) {
+    speeds[id] = (hourly[id] || Array(24).fill(null)).map(s => s ?? speed);
+  }
+  if (Object.keys(speeds).length === 0) throw new Error('No valid speed observations in the CSV');
+  return { name, speeds };
+};
+
+const getObservedSpeed = (observed: ObservedSpeeds, wayId: number, departure: Departure | null): number | null => {
+  const hours = observed.speeds[wayId];
+  if (!hours) return null;
+  if (departure) return hours[departure.hour];
+  // No departure: the average over all observed hours
+  const values = hours.filter((s): s is number => s !== null);
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+};
+
+// Rescale free-flow edge weights for the departure time: observed speeds where a way has
+// one, the profile's congestion factors otherwise. Returns a new graph; the input (which
+// may be cached) is left untouched.
+export const applyTrafficConditions = (
+  graph: GraphData,
+  profile: SpeedProfile,
+  departure: Departure | null,
+  observed: ObservedSpeeds | null
+): GraphData => {
+  const congestion = departure ? profile.congestion : undefined;
+  if (!congestion && !observed) return graph;
+
+  const adjust = (edge: Edge): Edge => {
+    const observedKmh = observed && edge.wayId !== undefined && edge.distance !== undefined
+      ? getObservedSpeed(observed, edge.wayId, departure)
+      : null;
+    if (observedKmh) return { ...edge, weight: edge.distance! / (observedKmh / 3.6) };
+    if (congestion) {
+      const factor = getCongestionFactor(congestion, edge.highway, departure!);
+      if (factor > 0 && factor !== 1) return { ...edge, weight: edge.weight / factor };
+    }
+    return edge;
+  };
+
+  const adjacency = new Map<string, Edge[]>();
+  graph.adjacency.forEach((edges, id) => adjacency.set(id, edges.map(adjust)));
+  return { nodes: graph.nodes, adjacency, spatialIndex: graph.spatialIndex, segmentIndex: graph.segmentIndex };
+};
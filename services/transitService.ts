@@ -0,0 +1,119 @@
+import { SpatialIndex, TransitFeed, TransitPattern, TransitTrip } from '../types';
+import { TRANSIT_STOP_SNAP_METERS, TRANSPORT_SPEEDS } from '../constants';
+import { findNearestNode } from './spatialIndex';
+import { getDistance } from './graphBuilder';
+import { Departure } from './departureService';
+
+// Service ids running on the departure date. When the date lies outside every calendar
+// (common with outdated feeds) the weekday alone decides, so old feeds stay usable.
+export const getActiveServices = (feed: TransitFeed, { date, weekday }: Departure): Set<string> | null => {
+  const entries = Object.entries(feed.services);
+  if (entries.length === 0) return null; // No calendar at all: every trip runs
+
+  const inRange = entries.some(([, s]) => (s.startDate <= date && date <= s.endDate) || s.added.includes(date));
+  const active = new Set<string>();
+  for (const [id, service] of entries) {
+    if (service.removed.includes(date)) continue;
+    const covered = !inRange || (service.startDate <= date && date <= service.endDate);
+    if ((covered && service.days[weekday]) || service.added.includes(date)) active.add(id);
+  }
+  return active;
+};
+
+export interface StopLink {
+  nodeId: string;
+  seconds: number; // Walk between the stop and its graph node
+}
+
+// Attach every stop to its nearest walking-network node, if one is close enough
+export const snapStopsToGraph = (feed: TransitFeed, index: SpatialIndex): (StopLink | null)[] => {
+  const walkMS = (TRANSPORT_SPEEDS.walking * 1000) / 3600;
+  const maxRings = Math.ceil(TRANSIT_STOP_SNAP_METERS / 111320 / index.cellSize) + 1;
+  return feed.stops.map(stop => {
+    const node = findNearestNode(index, stop.lat, stop.lon, maxRings);
+    if (!node) return null;
+    const dist = getDistance(stop.lat, stop.lon, node.lat, node.lon);
+    return dist <= TRANSIT_STOP_SNAP_METERS ? { nodeId: node.id, seconds: dist / walkMS } : null;
+  });
+};
+
+// Earliest running trip of a pattern that can be boarded at position `pos` at or after `time`
+const findTrip = (pattern: TransitPattern, pos: number, time: number, services: Set<string> | null): TransitTrip | null => {
+  for (const trip of pattern.trips) {
+    if (trip.departures[pos] >= time && (!services || services.has(trip.serviceId))) return trip;
+  }
+  return null;
+};
+
+// Round-based public transit routing (RAPTOR, Delling et al. 2012). Round k finds the
+// earliest arrivals using at most k vehicles, so maxTransfers bounds the rounds. `access`
+// holds absolute arrival times at stops reached on foot; returns the best arrival per stop.
+export const runRaptor = (
+  feed: TransitFeed,
+  access: Map<number, number>,
+  services: Set<string> | null,
+  maxArrival: number,
+  maxTransfers: number
+): Float64Array => {
+  const best = new Float64Array(feed.stops.length).fill(Infinity);
+  let previous = new Float64Array(feed.stops.length).fill(Infinity);
+  let marked = new Set<number>();
+  access.forEach((time, stop) => {
+    if (time <= maxArrival && time < best[stop]) {
+      best[stop] = previous[stop] = time;
+      marked.add(stop);
+    }
+  });
+
+  // (pattern, position) pairs serving each stop
+  const stopPatterns: [number, number][][] = feed.stops.map(() => []);
+  feed.patterns.forEach((pattern, p) => pattern.stops.forEach((stop, pos) => stopPatterns[stop].push([p, pos])));
+
+  for (let round = 0; round <= maxTransfers && marked.size > 0; round++) {
+    const current = previous.slice();
+    const improved = new Set<number>();
+
+    // Scan each pattern from its first marked stop only
+    const queue = new Map<number, number>();
+    marked.forEach(stop => {
+      for (const [p, pos] of stopPatterns[stop]) {
+        if (!queue.has(p) || pos < queue.get(p)!) queue.set(p, pos);
+      }
+    });
+
+    queue.forEach((start, p) => {
+      const pattern = feed.patterns[p];
+      let trip: TransitTrip | null = null;
+      for (let pos = start; pos < pattern.stops.length; pos++) {
+        const stop = pattern.stops[pos];
+        if (trip) {
+          const arrival = trip.arrivals[pos];
+          if (arrival <= maxArrival && arrival < best[stop]) {
+            best[stop] = current[stop] = arrival;
+            improved.add(stop);
+          }
+        }
+        // Switch to an earlier trip if the previous round reached this stop in time for one
+        if (previous[stop] < Infinity && (!trip || previous[stop] <= trip.departures[pos])) {
+          trip = findTrip(pattern, pos, previous[stop], services) ?? trip;
+        }
+      }
+    });
+
+    // Walking transfers from every stop improved in this round
+    [...improved].forEach(stop => {
+      for (const { to, seconds } of feed.transfers[stop]) {
+        const arrival = current[stop] + seconds;
+        if (arrival <= maxArrival && arrival < best[to]) {
+          best[to] = current[to] = arrival;
+          improved.add(to);
+        }
+      }
+    });
+
+    previous = current;
+    marked = improved;
+  }
+
+  return best;
+};
@@ -1,8 +1,40 @@
-
 export enum TransportMode {
   WALKING = 'walking',
   CYCLING = 'cycling',
-  DRIVING = 'driving'
+  DRIVING = 'driving',
+  TRANSIT = 'transit' // Scheduled public transport with walking access and egress
+}
+
+export enum PolygonMethod {
+  NETWORK_BUFFER = 'network_buffer', // Buffer reached road segments
+  CONCAVE_HULL = 'concave_hull' // Concave hull of reached nodes
+}
+
+export enum TravelDirection {
+  OUTBOUND = 'outbound', // Where can I get to from here
+  INBOUND = 'inbound' // From where can people get here
+}
+
+export enum OverlayOperation {
+  INTERSECTION = 'intersection', // Covered by every input
+  DIFFERENCE = 'difference', // Covered by the first input only
+  UNION = 'union' // Covered by any input
+}
+
+export enum DrawingTool {
+  POINT = 'point',
+  LINE = 'line',
+  POLYGON = 'polygon'
+}
+
+export enum ExportFormat {
+  GEOJSON = 'geojson',
+  SHAPEFILE = 'shapefile',
+  KML = 'kml',
+  GEOPACKAGE = 'geopackage',
+  NODES_CSV = 'nodes_csv',
+  GEOTIFF = 'geotiff',
+  ASCII_GRID = 'ascii_grid'
 }
 
 export interface IsochroneParams {
@@ -10,26 +42,377 @@ export interface IsochroneParams {
   lng: number;
   mode: TransportMode;
   minutes: number;
+  bands?: number[]; // Multiple cutoffs in minutes, computed from one shortest-path tree
+  polygonMethod?: PolygonMethod; // Defaults to NETWORK_BUFFER
+  direction?: TravelDirection; // Defaults to OUTBOUND
+  departure?: string; // Local 'YYYY-MM-DDTHH:MM'; transit timetables and driving congestion
+  maxTransfers?: number; // Transit only; defaults to 2
+  avoid?: AvoidanceOptions;
+}
+
+// What the routing must keep clear of; affected segments are dropped from the network
+export interface AvoidanceOptions {
+  tolls?: boolean;
+  ferries?: boolean;
+  unpaved?: boolean;
+  barriers?: boolean; // Gates, bollards etc. closed to the mode
+  areas?: any; // FeatureCollection of polygons, e.g. flood zones
+  areasName?: string;
+}
+
+export type OsmTags = Record<string, string>;
+
+// Direction(s) a way may be travelled relative to its node order
+export type WayDirection = 'forward' | 'backward' | 'both' | 'none';
+
+export interface SpeedProfile {
+  name: string;
+  mode: TransportMode;
+  highwaySpeeds: Record<string, number>; // km/h per OSM highway class, 0 excludes the class
+  defaultSpeed: number; // km/h for classes not listed above
+  surfaceFactors: Record<string, number>; // Multiplier per OSM surface value
+  maxspeedFactor: number; // Share of a posted maxspeed actually achieved, capping the class speed; 0 caps at maxspeed itself
+  singleLaneFactor: number; // Multiplier for ways tagged lanes=1
+  congestion?: CongestionProfile; // Time-of-day speed factors, applied when a departure is set
+}
+
+// Hourly speed multipliers (index 0 = 00:00-01:00) per road class. Link roads use their
+// main class; classes not listed fall back to '*'.
+export interface CongestionProfile {
+  weekday: Record<string, number[]>;
+  weekend: Record<string, number[]>;
+}
+
+// Observed speeds in km/h per OSM way id and hour of day; null where nothing was observed
+export interface ObservedSpeeds {
+  name: string;
+  speeds: Record<string, (number | null)[]>;
+}
+
+// Digital elevation model on a regular lat/lng grid, rows north to south. west and north
+// are the centre of the first cell; void cells are NaN.
+export interface ElevationModel {
+  name: string;
+  west: number;
+  north: number;
+  cellWidth: number; // Degrees
+  cellHeight: number;
+  cols: number;
+  rows: number;
+  heights: Float32Array; // Meters
+  minElevation: number;
+  maxElevation: number;
+}
+
+export interface BBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+// OSM node or way in the Overpass JSON element shape, shared by all network sources
+export interface OsmElement {
+  type: 'node' | 'way';
+  id: number;
+  lat?: number;
+  lon?: number;
+  nodes?: number[];
+  tags?: OsmTags;
 }
 
+// Road extract loaded from a local OSM XML, PBF or GeoJSON file
+export interface RoadExtract {
+  name: string;
+  elements: OsmElement[];
+}
+
+export interface NetworkRequest {
+  bbox: BBox;
+  mode: TransportMode;
+  profile: SpeedProfile;
+}
+
+// Anything that can produce a routable graph for an area
+export interface NetworkSource {
+  label: string;
+  loadGraph: (request: NetworkRequest) => Promise<GraphData>;
+}
+
+// Serialisable description of a network source
+export type NetworkSourceConfig =
+  | { type: 'overpass' }
+  | { type: 'local'; extract: RoadExtract };
+
+// Network source as posted to a worker: a local extract is sent along only the first time
+// that worker needs it, and named by id afterwards
+export type WorkerSourceConfig =
+  | { type: 'overpass' }
+  | { type: 'local'; extractId: number; extract?: RoadExtract };
+
 export interface Node {
   id: string;
   lat: number;
   lon: number;
+  barrier?: boolean; // A gate, bollard etc. the graph's mode cannot pass
 }
 
 export interface Edge {
   source: string;
   target: string;
   weight: number; // in seconds
+  distance?: number; // meters
+  wayId?: number;
+  highway?: string; // 'ferry' for ferry routes
+  toll?: boolean;
+  unpaved?: boolean;
+}
+
+// Uniform grid over node coordinates for fast nearest-node lookup
+export interface SpatialIndex {
+  cellSize: number; // degrees
+  cells: Map<string, Node[]>;
+}
+
+// Undirected road segments (node id pairs) per grid cell, for snapping points to edges
+export interface SegmentIndex {
+  cellSize: number; // degrees
+  cells: Map<string, [string, string][]>;
 }
 
 export interface GraphData {
   nodes: Map<string, Node>;
-  adjacency: Map<string, Edge[]>;
+  adjacency: Map<string, Edge[]>; // Directed: only edges travellable from the key node
+  spatialIndex?: SpatialIndex; // Built lazily for nearest-node lookups
+  segmentIndex?: SegmentIndex; // Built lazily for nearest-edge lookups
+  fetchedAt?: number; // Epoch ms of the oldest Overpass query the graph is built from
+  bounds?: BBox; // Area the network is complete for; roads leaving it end at its first outside node
+}
+
+// A network node reached by the search, with its travel time from the origin
+export interface ReachedNode {
+  id: string;
+  lat: number;
+  lon: number;
+  seconds: number;
+}
+
+// What the fetch -> route -> polygon pipeline produces for one origin
+// Travel times interpolated onto a regular lon/lat grid. Rows run north to south;
+// unreached cells are NaN.
+export interface TravelTimeSurface {
+  west: number;
+  north: number;
+  cellSize: number; // Degrees, the same along both axes
+  cols: number;
+  rows: number;
+  minutes: Float32Array;
+  maxMinutes: number;
+}
+
+// Shortest path between a result's origin and a destination, in travel order
+export interface RouteResult {
+  coordinates: [number, number][]; // [lon, lat]
+  seconds: number;
+  distanceMeters: number;
+  byHighway: Record<string, { seconds: number; distanceMeters: number }>;
+  destination: [number, number]; // [lat, lng] as clicked
+}
+
+export interface IsochroneOutput {
+  polygon: any; // null when no polygon could be built
+  reachedNodes: ReachedNode[];
+  roadLengthKm: number;
+  networkFetchedAt?: number; // GraphData.fetchedAt of the network used
+  originSnapMeters?: number; // Straight-line walk from the origin onto the network
+}
+
+export type AmenityCategory = 'schools' | 'hospitals' | 'markets' | 'transit_stops';
+
+// Point of interest or population sample used for coverage statistics
+export interface CoveragePoint {
+  lat: number;
+  lon: number;
+  tags: OsmTags;
+}
+
+// Uploaded population grid (polygons) or point layer, normalised to a `population` property
+export interface PopulationLayer {
+  name: string;
+  features: any[];
+}
+
+export interface IsochroneStats {
+  areaKm2: number;
+  roadLengthKm?: number;
+  amenities: Record<AmenityCategory, number>;
+  population?: number;
 }
 
 export interface IsochroneResult {
-  polygon: any; // GeoJSON Polygon/MultiPolygon
+  polygon: any; // GeoJSON Polygon/MultiPolygon, or a FeatureCollection of bands
+  params: IsochroneParams;
+  reachedNodes?: ReachedNode[];
+  stats?: IsochroneStats;
+  batch?: { originCount: number; failedCount: number }; // Set for combined batch results
+  provenance?: AnalysisProvenance;
+  overlay?: OverlaySource;
+  originSnapMeters?: number;
+  gaps?: FacilityGapSummary; // Set for facility coverage gap results
+  drawn?: DrawnShape; // Set for features drawn on the map
+  clippedTo?: string; // Name of the study area the polygon was clipped to
+}
+
+// A point, line or polygon drawn on the map and kept as a history layer
+export interface DrawnShape {
+  tool: DrawingTool;
+  name: string;
+}
+
+// How a result was derived from other history items by an overlay operation
+export interface OverlaySource {
+  operation: OverlayOperation;
+  inputs: { label: string; params: IsochroneParams; computedAt?: string }[];
+  areaKm2: number;
+  areaDeltaKm2: number; // Relative to the first input
+}
+
+// What a result was computed from, so a saved project documents and reproduces it
+export interface AnalysisProvenance {
+  computedAt: string; // ISO timestamp
+  networkSource: string; // 'Overpass API' or the local extract name
+  networkFetchedAt?: string; // ISO timestamp of the Overpass query (cached tiles keep their original time)
+  profile: SpeedProfile;
+  transitFeed?: string;
+  observedSpeeds?: string;
+  elevation?: string;
+}
+
+// Everything a project file restores
+export interface ProjectSession {
   params: IsochroneParams;
+  activePoi: [number, number] | null;
+  basemap: string;
+  speedProfiles: Record<TransportMode, SpeedProfile>;
+  history: IsochroneResult[];
+}
+
+// One origin of a batch run, with the attributes it was uploaded with
+export interface BatchOrigin {
+  id: string;
+  lat: number;
+  lng: number;
+  properties: Record<string, any>;
+}
+
+// Existing facilities and candidate sites for a coverage gap analysis. Without a
+// boundary the study area is drawn around the sites.
+export interface FacilityPlan {
+  facilities: BatchOrigin[];
+  candidates: BatchOrigin[];
+  boundary: any | null; // GeoJSON Polygon/MultiPolygon feature
+}
+
+// Graph part of a gap analysis: the area served by the existing facilities and what each
+// candidate would serve on its own (null where a site is off the network)
+export interface FacilityCoverageOutput {
+  covered: any;
+  candidates: any[];
+  networkFetchedAt?: number;
+}
+
+export interface CandidateRank {
+  id: string;
+  lat: number;
+  lng: number;
+  rank: number; // 1 = the best first addition
+  gainKm2: number; // Newly covered area, given every better-ranked candidate is built
+  gainPopulation?: number;
 }
+
+export interface FacilityGapSummary {
+  facilityCount: number;
+  studyAreaKm2: number;
+  uncoveredKm2: number;
+  uncoveredPopulation?: number;
+  candidates: CandidateRank[];
+}
+
+export interface BatchStatus {
+  state: 'pending' | 'running' | 'done' | 'failed';
+  fraction: number;
+  message?: string;
+}
+
+export interface CacheSettings {
+  ttlHours: number;
+  maxSizeMB: number;
+}
+
+export interface CacheStats {
+  tileCount: number;
+  graphCount: number;
+  totalBytes: number;
+  oldestEntry: number | null; // Epoch ms
+}
+
+// GTFS feed reduced to what the transit search needs. Trips with the same route and stop
+// sequence are grouped into patterns; times are seconds after midnight of the service day.
+export interface TransitStop {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+export interface TransitTrip {
+  serviceId: string;
+  arrivals: number[]; // Per pattern stop
+  departures: number[];
+}
+
+export interface TransitPattern {
+  routeName: string;
+  stops: number[]; // Indexes into TransitFeed.stops
+  trips: TransitTrip[]; // Sorted by departure from the first stop
+}
+
+export interface TransitService {
+  days: boolean[]; // Sunday first
+  startDate: string; // YYYYMMDD
+  endDate: string;
+  added: string[]; // calendar_dates exceptions
+  removed: string[];
+}
+
+export interface TransitFeed {
+  name: string;
+  stops: TransitStop[];
+  patterns: TransitPattern[];
+  transfers: { to: number; seconds: number }[][]; // Walking links between nearby stops, per stop
+  services: Record<string, TransitService>;
+}
+
+// Optional datasets an analysis can draw on besides the road network
+export interface AnalysisLayers {
+  transit: TransitFeed | null;
+  observedSpeeds: ObservedSpeeds | null;
+  elevation: ElevationModel | null;
+}
+
+export interface IsochroneWorkerRequest {
+  id: number;
+  params: IsochroneParams;
+  profile: SpeedProfile;
+  source: WorkerSourceConfig;
+  layers: AnalysisLayers;
+  plan?: FacilityPlan; // Runs a coverage gap analysis instead of a single isochrone
+  destination?: { lat: number; lng: number }; // Traces the route to this point instead
+}
+
+export type IsochroneWorkerResponse =
+  | { id: number; type: 'progress'; stage: string; fraction: number }
+  | { id: number; type: 'result'; output: IsochroneOutput }
+  | { id: number; type: 'coverage'; output: FacilityCoverageOutput }
+  | { id: number; type: 'route'; output: RouteResult }
+  | { id: number; type: 'error'; message: string };
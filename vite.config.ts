@@ -14,6 +14,9 @@ export default defineConfig({
       }
     }
   },
+  worker: {
+    format: 'es'
+  },
   server: {
     port: 3000
   }
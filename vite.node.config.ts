@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+
+// Node build of the headless library and the CLI; dependencies stay external and are
+// imported from node_modules at runtime
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist-node',
+    target: 'node20',
+    rollupOptions: {
+      input: {
+        index: './lib/index.ts',
+        cli: './cli/isochrone.ts',
+        server: './server/index.ts'
+      },
+      output: {
+        format: 'es'
+      }
+    }
+  }
+});
@@ -0,0 +1,37 @@
+import { runIsochronePipeline } from '../services/isochroneService';
+import { runFacilityCoveragePipeline } from '../services/facilityService';
+import { runRoutePipeline } from '../services/routeService';
+import { createNetworkSource } from '../services/networkSource';
+import { IsochroneWorkerRequest, IsochroneWorkerResponse, NetworkSourceConfig, RoadExtract, WorkerSourceConfig } from '../types';
+
+const post = (message: IsochroneWorkerResponse) => self.postMessage(message);
+
+// The last extract posted to this worker; later requests name it by id
+let extract: { id: number; extract: RoadExtract } | null = null;
+
+const resolveSource = (source: WorkerSourceConfig): NetworkSourceConfig => {
+  if (source.type === 'overpass') return source;
+  if (source.extract) extract = { id: source.extractId, extract: source.extract };
+  if (extract?.id !== source.extractId) throw new Error('The road network extract was not sent to the worker');
+  return { type: 'local', extract: extract.extract };
+};
+
+self.onmessage = async (e: MessageEvent<IsochroneWorkerRequest>) => {
+  const { id, params, profile, layers, plan, destination } = e.data;
+  const onProgress = (stage: string, fraction: number) => post({ id, type: 'progress', stage, fraction });
+  try {
+    const source = createNetworkSource(resolveSource(e.data.source));
+    if (plan) {
+      const output = await runFacilityCoveragePipeline(plan, params, profile, onProgress, source, layers);
+      post({ id, type: 'coverage', output });
+    } else if (destination) {
+      const output = await runRoutePipeline(params, profile, destination, onProgress, source, layers);
+      post({ id, type: 'route', output });
+    } else {
+      const output = await runIsochronePipeline(params, profile, onProgress, source, layers);
+      post({ id, type: 'result', output });
+    }
+  } catch (error) {
+    post({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};